@@ -15,6 +15,7 @@ export default tseslint.config(
     languageOptions: {
       globals: {
         ...globals.node,
+        ...globals.jest,
       },
       sourceType: 'commonjs',
       parserOptions: {
@@ -0,0 +1,149 @@
+import { Logger } from "@nestjs/common";
+import type { FactoryProvider } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ethers } from "ethers";
+import { BlockchainService } from "../blockchain/blockchain.service";
+import { MulticallService } from "../blockchain/multicall.service";
+
+// Getters on the PoolAddressesProvider, in AaveAddresses order
+const MARKET_GETTERS = [
+  "getPool",
+  "getPoolDataProvider",
+  "getPriceOracle",
+  "getACLManager",
+  "getPoolConfigurator",
+];
+
+const ADDRESSES_PROVIDER_ABI = [
+  "function getPool() view returns (address)",
+  "function getPoolDataProvider() view returns (address)",
+  "function getPriceOracle() view returns (address)",
+  "function getACLManager() view returns (address)",
+  "function getPoolConfigurator() view returns (address)",
+];
+
+// Every market contract except the configurator exposes its provider
+const MARKET_CONTRACT_ABI = [
+  "function ADDRESSES_PROVIDER() view returns (address)",
+];
+
+/**
+ * Contracts of the Aave market, resolved from its PoolAddressesProvider
+ * when the application starts
+ */
+export class AaveAddresses {
+  constructor(
+    readonly addressesProvider: string,
+    readonly pool: string,
+    readonly poolDataProvider: string,
+    readonly oracle: string,
+    readonly aclManager: string,
+    readonly poolConfigurator: string,
+  ) {}
+}
+
+/**
+ * Resolves the market's contracts and checks them against the configured
+ * chain; any mismatch aborts startup rather than sending transactions to
+ * the wrong contracts
+ */
+export const aaveAddressesProvider: FactoryProvider<Promise<AaveAddresses>> = {
+  provide: AaveAddresses,
+  inject: [ConfigService, BlockchainService, MulticallService],
+  useFactory: resolveAaveAddresses,
+};
+
+async function resolveAaveAddresses(
+  configService: ConfigService,
+  blockchainService: BlockchainService,
+  multicallService: MulticallService,
+): Promise<AaveAddresses> {
+  const logger = new Logger(AaveAddresses.name);
+  const provider = blockchainService.getProvider();
+  const chainId = configService.get<number>("blockchain.chainId")!;
+  const addressesProviderAddress = configService.get<string>(
+    "contracts.poolAddressesProvider",
+  )!;
+
+  const network = await provider.getNetwork();
+  if (network.chainId !== chainId) {
+    throw new Error(
+      `RPC_URL serves chain ${network.chainId}, but CHAIN_ID is ${chainId}`,
+    );
+  }
+  await assertContract(provider, addressesProviderAddress, chainId);
+
+  const addressesProvider = new ethers.Contract(
+    addressesProviderAddress,
+    ADDRESSES_PROVIDER_ABI,
+    provider,
+  );
+  const [pool, poolDataProvider, oracle, aclManager, poolConfigurator] = (
+    await multicallService.call(
+      MARKET_GETTERS.map((method) => ({ contract: addressesProvider, method })),
+    )
+  ).map((result, index) => {
+    if (!result.success) {
+      throw new Error(
+        `PoolAddressesProvider ${addressesProviderAddress} on chain ${chainId} could not be read: ${result.error.message}`,
+      );
+    }
+    const address: string = result.value[0];
+    if (address === ethers.constants.AddressZero) {
+      throw new Error(
+        `PoolAddressesProvider ${addressesProviderAddress} returned no address from ${MARKET_GETTERS[index]}`,
+      );
+    }
+    return address;
+  });
+
+  await Promise.all(
+    [pool, poolDataProvider, oracle, aclManager, poolConfigurator].map(
+      (address) => assertContract(provider, address, chainId),
+    ),
+  );
+
+  // The contracts must belong to this market, not just exist on the chain
+  const marketContracts = [pool, poolDataProvider, oracle, aclManager];
+  const owners = await multicallService.call(
+    marketContracts.map((address) => ({
+      contract: new ethers.Contract(address, MARKET_CONTRACT_ABI, provider),
+      method: "ADDRESSES_PROVIDER",
+    })),
+  );
+  owners.forEach((owner, index) => {
+    const address = marketContracts[index];
+    if (
+      !owner.success ||
+      owner.value[0].toLowerCase() !== addressesProviderAddress.toLowerCase()
+    ) {
+      throw new Error(
+        `Contract ${address} on chain ${chainId} does not belong to PoolAddressesProvider ${addressesProviderAddress}`,
+      );
+    }
+  });
+
+  logger.log(
+    `Resolved Aave market on chain ${chainId}: Pool ${pool}, PoolDataProvider ${poolDataProvider}, AaveOracle ${oracle}, ACLManager ${aclManager}, PoolConfigurator ${poolConfigurator}`,
+  );
+
+  return new AaveAddresses(
+    addressesProviderAddress,
+    pool,
+    poolDataProvider,
+    oracle,
+    aclManager,
+    poolConfigurator,
+  );
+}
+
+async function assertContract(
+  provider: ethers.providers.Provider,
+  address: string,
+  chainId: number,
+) {
+  const code = await provider.getCode(address);
+  if (code === "0x") {
+    throw new Error(`No contract at ${address} on chain ${chainId}`);
+  }
+}
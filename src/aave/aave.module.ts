@@ -1,10 +1,14 @@
 import { Module } from "@nestjs/common";
 import { AaveService } from "./aave.service";
+import {
+  AaveAddresses,
+  aaveAddressesProvider,
+} from "./aave-addresses.provider";
 import { BlockchainModule } from "../blockchain/blockchain.module";
 
 @Module({
   imports: [BlockchainModule],
-  providers: [AaveService],
-  exports: [AaveService],
+  providers: [aaveAddressesProvider, AaveService],
+  exports: [AaveAddresses, AaveService],
 })
 export class AaveModule {}
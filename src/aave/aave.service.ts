@@ -1,13 +1,25 @@
 import { Injectable, Logger, BadRequestException } from "@nestjs/common";
-import { ConfigService } from "@nestjs/config";
 import { ethers } from "ethers";
 import { BlockchainService } from "../blockchain/blockchain.service";
+import { MulticallService } from "../blockchain/multicall.service";
+import type { MulticallResult } from "../blockchain/multicall.service";
+import { ChainCacheService } from "../cache/chain-cache.service";
+import { AaveAddresses } from "./aave-addresses.provider";
 import {
   StakeDto,
   WithdrawDto,
   BorrowDto,
   RepayDto,
 } from "../common/dto/stake.dto";
+import {
+  ReserveData,
+  UserPosition,
+  UserAccountData,
+} from "../common/dto/aave-result.dto";
+import type {
+  ExecutionConfirmation,
+  ExecutionOptions,
+} from "../common/interfaces/execution-options.interface";
 
 // Aave V3 Pool ABI (minimal)
 const POOL_ABI = [
@@ -26,6 +38,14 @@ const DATA_PROVIDER_ABI = [
   "function getAllReservesTokens() view returns (tuple(string symbol, address tokenAddress)[])",
 ];
 
+// Aave Oracle ABI (minimal)
+const ORACLE_ABI = [
+  "function getAssetPrice(address asset) view returns (uint256)",
+];
+
+// Oracle prices and account values use 8 decimals (USD base currency)
+const BASE_CURRENCY_DECIMALS = 8;
+
 // ERC20 ABI (minimal)
 const ERC20_ABI = [
   "function approve(address spender, uint256 amount) returns (bool)",
@@ -35,34 +55,22 @@ const ERC20_ABI = [
   "function symbol() view returns (string)",
 ];
 
-export interface ReserveData {
+interface ReserveToken {
   symbol: string;
-  address: string;
-  apy: number;
-  borrowApy: number;
-  totalSupplied: string;
-  totalBorrowed: string;
-  availableLiquidity: string;
-  usageAsCollateralEnabled: boolean;
-  ltv: number;
+  tokenAddress: string;
 }
 
-export interface UserPosition {
-  asset: string;
-  supplied: string;
-  borrowed: string;
-  apy: number;
-  borrowApy?: number;
-  collateralEnabled: boolean;
+// Cache key for reads covering every listed reserve
+function reservesKey(reserves: ReserveToken[]): string {
+  return reserves.map((reserve) => reserve.tokenAddress.toLowerCase()).join();
 }
 
-export interface UserAccountData {
-  totalCollateral: string;
-  totalDebt: string;
-  availableBorrows: string;
-  currentLiquidationThreshold: number;
-  ltv: number;
-  healthFactor: string;
+// Value of a batched read, or its error
+function unwrapResult(result: MulticallResult): ethers.utils.Result {
+  if (!result.success) {
+    throw result.error;
+  }
+  return result.value;
 }
 
 @Injectable()
@@ -70,38 +78,46 @@ export class AaveService {
   private readonly logger = new Logger(AaveService.name);
   private poolContract: ethers.Contract;
   private dataProviderContract: ethers.Contract;
+  private oracleContract: ethers.Contract;
 
   constructor(
-    private configService: ConfigService,
     private blockchainService: BlockchainService,
+    private multicallService: MulticallService,
+    private cacheService: ChainCacheService,
+    private addresses: AaveAddresses,
   ) {
     const provider = this.blockchainService.getProvider();
-    const poolAddress = this.configService.get<string>("contracts.aavePool")!;
-    const dataProviderAddress = this.configService.get<string>(
-      "contracts.poolDataProvider",
-    )!;
 
-    this.poolContract = new ethers.Contract(poolAddress, POOL_ABI, provider);
+    this.poolContract = new ethers.Contract(
+      this.addresses.pool,
+      POOL_ABI,
+      provider,
+    );
     this.dataProviderContract = new ethers.Contract(
-      dataProviderAddress,
+      this.addresses.poolDataProvider,
       DATA_PROVIDER_ABI,
       provider,
     );
+    this.oracleContract = new ethers.Contract(
+      this.addresses.oracle,
+      ORACLE_ABI,
+      provider,
+    );
   }
 
   async getReserves(): Promise<ReserveData[]> {
     try {
-      const reserves = await this.dataProviderContract.getAllReservesTokens();
+      const reserves = await this.getReserveTokens();
+      const [dataResults, configResults] = await Promise.all([
+        this.getReserveDataResults(reserves),
+        this.getReserveConfigResults(reserves),
+      ]);
       const reserveData: ReserveData[] = [];
 
-      for (const reserve of reserves) {
+      reserves.forEach((reserve, index) => {
         try {
-          const [reserveInfo, configData] = await Promise.all([
-            this.dataProviderContract.getReserveData(reserve.tokenAddress),
-            this.dataProviderContract.getReserveConfigurationData(
-              reserve.tokenAddress,
-            ),
-          ]);
+          const reserveInfo = unwrapResult(dataResults[index]);
+          const configData = unwrapResult(configResults[index]);
 
           const liquidityRate = Number(reserveInfo.liquidityRate) / 1e25; // Ray to percentage
           const variableBorrowRate =
@@ -134,7 +150,7 @@ export class AaveService {
             `Failed to get data for reserve ${reserve.symbol}: ${error.message}`,
           );
         }
-      }
+      });
 
       return reserveData;
     } catch (error) {
@@ -143,57 +159,157 @@ export class AaveService {
     }
   }
 
-  async getUserPositions(userAddress: string): Promise<UserPosition[]> {
-    try {
-      const reserves = await this.dataProviderContract.getAllReservesTokens();
-      const positions: UserPosition[] = [];
+  /**
+   * Symbols of all listed reserves, without fetching their market data
+   */
+  async getReserveSymbols(): Promise<string[]> {
+    const reserves = await this.getReserveTokens();
+    return reserves.map((reserve) => reserve.symbol);
+  }
 
-      for (const reserve of reserves) {
-        const userData = await this.dataProviderContract.getUserReserveData(
-          reserve.tokenAddress,
-          userAddress,
-        );
+  /**
+   * USD price of a reserve asset from the Aave oracle
+   */
+  async getAssetPriceUsd(asset: string): Promise<number> {
+    const tokenAddress = this.blockchainService.getTokenAddress(asset);
+    const price: ethers.BigNumber = await this.cacheService.wrap(
+      "prices",
+      tokenAddress.toLowerCase(),
+      () => this.oracleContract.getAssetPrice(tokenAddress),
+    );
+    return Number(ethers.utils.formatUnits(price, BASE_CURRENCY_DECIMALS));
+  }
 
-        if (
-          userData.currentATokenBalance.gt(0) ||
-          userData.currentVariableDebt.gt(0) ||
-          userData.currentStableDebt.gt(0)
-        ) {
-          const decimals = await this.blockchainService.getTokenDecimals(
-            reserve.tokenAddress,
-          );
-          const reserveInfo = await this.dataProviderContract.getReserveData(
-            reserve.tokenAddress,
-          );
+  // The reserve list only changes through governance
+  private getReserveTokens(): Promise<ReserveToken[]> {
+    return this.cacheService.wrap("reserveConfig", "list", () =>
+      this.dataProviderContract.getAllReservesTokens(),
+    );
+  }
 
-          positions.push({
-            asset: reserve.symbol,
-            supplied: ethers.utils.formatUnits(
-              userData.currentATokenBalance,
-              decimals,
-            ),
-            borrowed: ethers.utils.formatUnits(
-              userData.currentVariableDebt.add(userData.currentStableDebt),
-              decimals,
-            ),
-            apy: Number(reserveInfo.liquidityRate) / 1e25,
-            borrowApy: Number(reserveInfo.variableBorrowRate) / 1e25,
-            collateralEnabled: userData.usageAsCollateralEnabled,
-          });
-        }
-      }
+  // Market data of every listed reserve, one result per reserve
+  private getReserveDataResults(
+    reserves: ReserveToken[],
+  ): Promise<MulticallResult[]> {
+    return this.cacheService.wrap("reserves", reservesKey(reserves), () =>
+      this.multicallService.call(
+        reserves.map((reserve) => ({
+          contract: this.dataProviderContract,
+          method: "getReserveData",
+          args: [reserve.tokenAddress],
+        })),
+      ),
+    );
+  }
 
-      return positions;
+  // Configuration (decimals, LTV, flags) of every listed reserve
+  private async getReserveConfigResults(
+    reserves: ReserveToken[],
+  ): Promise<MulticallResult[]> {
+    const key = reservesKey(reserves);
+    const results = await this.cacheService.wrap("reserveConfig", key, () =>
+      this.multicallService.call(
+        reserves.map((reserve) => ({
+          contract: this.dataProviderContract,
+          method: "getReserveConfigurationData",
+          args: [reserve.tokenAddress],
+        })),
+      ),
+    );
+    // A failed read is retried next time rather than kept for the TTL
+    if (results.some((result) => !result.success)) {
+      this.cacheService.invalidate("reserveConfig", key);
+    }
+    return results;
+  }
+
+  /**
+   * Drop cached reads a mined write has made stale: reserve totals and the
+   * positions of the accounts involved
+   */
+  private async invalidateAfterWrite(
+    signer: ethers.Signer,
+    userAddress: string,
+  ) {
+    this.cacheService.invalidate("reserves");
+    for (const account of [userAddress, await signer.getAddress()]) {
+      this.cacheService.invalidate("positions", account.toLowerCase());
+      this.cacheService.invalidate("accounts", account.toLowerCase());
+    }
+  }
+
+  async getUserPositions(userAddress: string): Promise<UserPosition[]> {
+    try {
+      return await this.cacheService.wrap(
+        "positions",
+        userAddress.toLowerCase(),
+        () => this.readUserPositions(userAddress),
+      );
     } catch (error) {
       this.logger.error(`Error getting user positions: ${error.message}`);
       throw error;
     }
   }
 
+  private async readUserPositions(
+    userAddress: string,
+  ): Promise<UserPosition[]> {
+    const reserves = await this.getReserveTokens();
+    // Rates and decimals are read for every reserve alongside the user's
+    // data, so the scan is one round of batches
+    const [userResults, dataResults, configResults] = await Promise.all([
+      this.multicallService.call(
+        reserves.map((reserve) => ({
+          contract: this.dataProviderContract,
+          method: "getUserReserveData",
+          args: [reserve.tokenAddress, userAddress],
+        })),
+      ),
+      this.getReserveDataResults(reserves),
+      this.getReserveConfigResults(reserves),
+    ]);
+    const positions: UserPosition[] = [];
+
+    // A failed read of a held reserve fails the whole call rather than
+    // hiding a position
+    reserves.forEach((reserve, index) => {
+      const userData = unwrapResult(userResults[index]);
+
+      if (
+        userData.currentATokenBalance.gt(0) ||
+        userData.currentVariableDebt.gt(0) ||
+        userData.currentStableDebt.gt(0)
+      ) {
+        const reserveInfo = unwrapResult(dataResults[index]);
+        const decimals = unwrapResult(configResults[index]).decimals;
+
+        positions.push({
+          asset: reserve.symbol,
+          supplied: ethers.utils.formatUnits(
+            userData.currentATokenBalance,
+            decimals,
+          ),
+          borrowed: ethers.utils.formatUnits(
+            userData.currentVariableDebt.add(userData.currentStableDebt),
+            decimals,
+          ),
+          apy: Number(reserveInfo.liquidityRate) / 1e25,
+          borrowApy: Number(reserveInfo.variableBorrowRate) / 1e25,
+          collateralEnabled: userData.usageAsCollateralEnabled,
+        });
+      }
+    });
+
+    return positions;
+  }
+
   async getUserAccountData(userAddress: string): Promise<UserAccountData> {
     try {
-      const accountData =
-        await this.poolContract.getUserAccountData(userAddress);
+      const accountData: ethers.utils.Result = await this.cacheService.wrap(
+        "accounts",
+        userAddress.toLowerCase(),
+        () => this.poolContract.getUserAccountData(userAddress),
+      );
 
       return {
         totalCollateral: ethers.utils.formatUnits(
@@ -218,8 +334,12 @@ export class AaveService {
     }
   }
 
-  async stake(stakeDto: StakeDto): Promise<any> {
+  async stake(
+    stakeDto: StakeDto,
+    options: ExecutionOptions = {},
+  ): Promise<any> {
     const { asset, amount, userAddress } = stakeDto;
+    const { onProgress, signal } = options;
 
     try {
       const tokenAddress = this.blockchainService.getTokenAddress(asset);
@@ -235,14 +355,16 @@ export class AaveService {
       );
       const balance = await tokenContract.balanceOf(userAddress);
 
-      if (balance.lt(amountWei)) {
+      // A dry run's earlier planned steps (a swap into the asset) have not
+      // moved any funds yet
+      if (balance.lt(amountWei) && !options.dryRun?.length) {
         throw new BadRequestException(
           `Insufficient ${asset} balance. Have: ${ethers.utils.formatUnits(balance, decimals)}, Need: ${amount}`,
         );
       }
 
       // Check if auto-execute is enabled
-      if (!this.blockchainService.isAutoExecuteEnabled()) {
+      if (!this.blockchainService.isAutoExecuteEnabled(options)) {
         // Simulation mode
         return {
           success: true,
@@ -253,13 +375,13 @@ export class AaveService {
             amount,
             userAddress,
             tokenAddress,
-            poolAddress: this.configService.get<string>("contracts.aavePool"),
+            poolAddress: this.addresses.pool,
           },
         };
       }
 
-      const signer = this.blockchainService.getSigner(userAddress);
-      const poolAddress = this.configService.get<string>("contracts.aavePool");
+      const signer = this.blockchainService.getSigner(userAddress, options);
+      const poolAddress = this.addresses.pool;
 
       // Check and set allowance
       const allowance = await tokenContract.allowance(userAddress, poolAddress);
@@ -268,6 +390,7 @@ export class AaveService {
         
         // Add delay before approval transaction
         await new Promise(resolve => setTimeout(resolve, 3000));
+        signal?.throwIfAborted();
         
         // Estimate gas for approval
         const approveGasEstimate = await tokenContract
@@ -280,10 +403,16 @@ export class AaveService {
           .approve(poolAddress, ethers.constants.MaxUint256, { gasLimit: approveGasLimit });
         await approveTx.wait();
         this.logger.log(`Approval transaction: ${approveTx.hash}`);
+        onProgress?.({
+          step: "approval",
+          message: `Approved ${asset} for Aave Pool`,
+          transactionHash: approveTx.hash,
+        });
       }
 
       // Add 3-second delay before supply transaction
       await new Promise(resolve => setTimeout(resolve, 3000));
+      signal?.throwIfAborted();
 
       // Estimate gas for supply
       const estimatedGas = await this.poolContract
@@ -308,9 +437,20 @@ export class AaveService {
         0, // referral code
         { gasLimit }
       );
+      onProgress?.({
+        step: "supply_sent",
+        message: `Supply of ${amount} ${asset} sent`,
+        transactionHash: supplyTx.hash,
+      });
 
       const receipt = await supplyTx.wait();
+      await this.invalidateAfterWrite(signer, userAddress);
       this.logger.log(`Stake successful: ${supplyTx.hash}`);
+      onProgress?.({
+        step: "supply_confirmed",
+        message: `Supply of ${amount} ${asset} confirmed`,
+        transactionHash: supplyTx.hash,
+      });
 
       return {
         success: true,
@@ -328,7 +468,10 @@ export class AaveService {
     }
   }
 
-  async withdraw(withdrawDto: WithdrawDto): Promise<any> {
+  async withdraw(
+    withdrawDto: WithdrawDto,
+    options: ExecutionOptions = {},
+  ): Promise<any> {
     const { asset, amount, userAddress } = withdrawDto;
 
     try {
@@ -353,7 +496,7 @@ export class AaveService {
       }
 
       // Check if auto-execute is enabled
-      if (!this.blockchainService.isAutoExecuteEnabled()) {
+      if (!this.blockchainService.isAutoExecuteEnabled(options)) {
         return {
           success: true,
           simulation: true,
@@ -367,10 +510,28 @@ export class AaveService {
         };
       }
 
-      const signer = this.blockchainService.getSigner(userAddress);
+      if (options.confirm) {
+        const withdrawAmount = ethers.utils.formatUnits(amountWei, decimals);
+        const userData = await this.dataProviderContract.getUserReserveData(
+          tokenAddress,
+          userAddress,
+        );
+        await options.confirm(
+          await this.describeRisk(
+            `Withdraw ${withdrawAmount} ${asset} from Aave`,
+            userAddress,
+            asset,
+            withdrawAmount,
+            userData.usageAsCollateralEnabled ? "withdraw" : undefined,
+          ),
+        );
+      }
+
+      const signer = this.blockchainService.getSigner(userAddress, options);
 
       // Add 3-second delay before transaction to avoid nonce conflicts
       await new Promise(resolve => setTimeout(resolve, 3000));
+      options.signal?.throwIfAborted();
 
       // Estimate gas for the withdrawal
       const estimatedGas = await this.poolContract
@@ -390,6 +551,7 @@ export class AaveService {
         .withdraw(tokenAddress, amountWei, userAddress, { gasLimit });
 
       const receipt = await withdrawTx.wait();
+      await this.invalidateAfterWrite(signer, userAddress);
       this.logger.log(`Withdrawal successful: ${withdrawTx.hash}`);
 
       return {
@@ -408,7 +570,10 @@ export class AaveService {
     }
   }
 
-  async borrow(borrowDto: BorrowDto): Promise<any> {
+  async borrow(
+    borrowDto: BorrowDto,
+    options: ExecutionOptions = {},
+  ): Promise<any> {
     const { asset, amount, rateMode = 2, userAddress } = borrowDto;
 
     try {
@@ -427,7 +592,7 @@ export class AaveService {
       }
 
       // Check if auto-execute is enabled
-      if (!this.blockchainService.isAutoExecuteEnabled()) {
+      if (!this.blockchainService.isAutoExecuteEnabled(options)) {
         return {
           success: true,
           simulation: true,
@@ -442,10 +607,23 @@ export class AaveService {
         };
       }
 
-      const signer = this.blockchainService.getSigner(userAddress);
+      if (options.confirm) {
+        await options.confirm(
+          await this.describeRisk(
+            `Borrow ${amount} ${asset} from Aave`,
+            userAddress,
+            asset,
+            amount,
+            "borrow",
+          ),
+        );
+      }
+
+      const signer = this.blockchainService.getSigner(userAddress, options);
 
       // Add 3-second delay before transaction
       await new Promise(resolve => setTimeout(resolve, 3000));
+      options.signal?.throwIfAborted();
 
       // Estimate gas for borrow
       const estimatedGas = await this.poolContract
@@ -474,6 +652,7 @@ export class AaveService {
       );
 
       const receipt = await borrowTx.wait();
+      await this.invalidateAfterWrite(signer, userAddress);
       this.logger.log(`Borrow successful: ${borrowTx.hash}`);
 
       return {
@@ -493,8 +672,12 @@ export class AaveService {
     }
   }
 
-  async repay(repayDto: RepayDto): Promise<any> {
+  async repay(
+    repayDto: RepayDto,
+    options: ExecutionOptions = {},
+  ): Promise<any> {
     const { asset, amount, rateMode = 2, userAddress } = repayDto;
+    const { onProgress, signal } = options;
 
     try {
       const tokenAddress = this.blockchainService.getTokenAddress(asset);
@@ -523,7 +706,7 @@ export class AaveService {
       }
 
       // Check if auto-execute is enabled
-      if (!this.blockchainService.isAutoExecuteEnabled()) {
+      if (!this.blockchainService.isAutoExecuteEnabled(options)) {
         return {
           success: true,
           simulation: true,
@@ -538,8 +721,8 @@ export class AaveService {
         };
       }
 
-      const signer = this.blockchainService.getSigner(userAddress);
-      const poolAddress = this.configService.get<string>("contracts.aavePool");
+      const signer = this.blockchainService.getSigner(userAddress, options);
+      const poolAddress = this.addresses.pool;
 
       // Check and set allowance
       const allowance = await tokenContract.allowance(userAddress, poolAddress);
@@ -548,6 +731,7 @@ export class AaveService {
         
         // Add delay before approval
         await new Promise(resolve => setTimeout(resolve, 3000));
+        signal?.throwIfAborted();
         
         // Estimate gas for approval
         const approveGasEstimate = await tokenContract
@@ -559,10 +743,17 @@ export class AaveService {
           .connect(signer)
           .approve(poolAddress, ethers.constants.MaxUint256, { gasLimit: approveGasLimit });
         await approveTx.wait();
+        this.logger.log(`Approval transaction: ${approveTx.hash}`);
+        onProgress?.({
+          step: "approval",
+          message: `Approved ${asset} for repayment`,
+          transactionHash: approveTx.hash,
+        });
       }
 
       // Add 3-second delay before repay transaction
       await new Promise(resolve => setTimeout(resolve, 3000));
+      signal?.throwIfAborted();
 
       // Estimate gas for repay
       const estimatedGas = await this.poolContract
@@ -578,9 +769,20 @@ export class AaveService {
       const repayTx = await this.poolContract
         .connect(signer)
         .repay(tokenAddress, amountWei, rateMode, userAddress, { gasLimit });
+      onProgress?.({
+        step: "repay_sent",
+        message: `Repayment of ${amount} ${asset} sent`,
+        transactionHash: repayTx.hash,
+      });
 
       const receipt = await repayTx.wait();
+      await this.invalidateAfterWrite(signer, userAddress);
       this.logger.log(`Repayment successful: ${repayTx.hash}`);
+      onProgress?.({
+        step: "repay_confirmed",
+        message: `Repayment of ${amount} ${asset} confirmed`,
+        transactionHash: repayTx.hash,
+      });
 
       return {
         success: true,
@@ -599,6 +801,53 @@ export class AaveService {
     }
   }
 
+  /**
+   * Summarise a borrow or collateral withdrawal for confirmation
+   *
+   * The projected health factor applies the account's average liquidation
+   * threshold to the new collateral and debt, so it is an estimate.
+   */
+  private async describeRisk(
+    action: string,
+    userAddress: string,
+    asset: string,
+    amount: string,
+    change: "borrow" | "withdraw" | undefined,
+  ): Promise<ExecutionConfirmation> {
+    const accountData = await this.poolContract.getUserAccountData(userAddress);
+    const collateral = Number(
+      ethers.utils.formatUnits(
+        accountData.totalCollateralBase,
+        BASE_CURRENCY_DECIMALS,
+      ),
+    );
+    const debt = Number(
+      ethers.utils.formatUnits(accountData.totalDebtBase, BASE_CURRENCY_DECIMALS),
+    );
+    const threshold = Number(accountData.currentLiquidationThreshold) / 10000;
+    const healthFactor = (collateralUsd: number, debtUsd: number) =>
+      debtUsd === 0 ? Infinity : (collateralUsd * threshold) / debtUsd;
+
+    let usdValue: number | undefined;
+    try {
+      usdValue = parseFloat(amount) * (await this.getAssetPriceUsd(asset));
+    } catch (error) {
+      this.logger.warn(`Failed to price ${asset}: ${error.message}`);
+    }
+
+    const current = healthFactor(collateral, debt);
+    let projected: number | undefined = current;
+    if (change && usdValue === undefined) {
+      projected = undefined;
+    } else if (change === "borrow") {
+      projected = healthFactor(collateral, debt + usdValue!);
+    } else if (change === "withdraw") {
+      projected = healthFactor(Math.max(0, collateral - usdValue!), debt);
+    }
+
+    return { action, usdValue, healthFactor: { current, projected } };
+  }
+
   async getBestStrategies(): Promise<any[]> {
     try {
       const reserves = await this.getReserves();
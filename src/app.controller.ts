@@ -12,7 +12,7 @@ export class AppController {
       version: '1.0.0',
       status: 'operational',
       chain: 'Base',
-      endpoints: ['/mcp', '/mcp/sse', '/mcp/message', '/mcp/tools', '/mcp/info', '/mcp/health']
+      endpoints: ['/mcp', '/mcp/sse', '/mcp/message', '/mcp/tools', '/mcp/info', '/mcp/health', '/audit', '/cache/stats']
     };
   }
 }
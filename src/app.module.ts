@@ -5,6 +5,7 @@ import { AppService } from "./app.service";
 import { AaveModule } from "./aave/aave.module";
 import { SwapModule } from "./swap/swap.module";
 import { BlockchainModule } from "./blockchain/blockchain.module";
+import { CacheModule } from "./cache/cache.module";
 import { McpModule } from "./mcp/mcp.module";
 import { SmartDepositModule } from "./smart-deposit/smart-deposit.module";
 import { TransactionBuilderModule } from "./transaction-builder/transaction-builder.module";
@@ -17,6 +18,7 @@ import configuration from "./config/configuration";
       isGlobal: true,
       load: [configuration],
     }),
+    CacheModule,
     BlockchainModule,
     AaveModule,
     SwapModule,
@@ -0,0 +1,51 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  Logger,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { AuditService } from "./audit.service";
+import { AuditQueryDto } from "../common/dto/audit.dto";
+import { AuditLogDto } from "../common/dto/audit-result.dto";
+import { McpAuthGuard } from "../auth/mcp-auth.guard";
+import { Principal } from "../auth/principal.decorator";
+import { hasScope } from "../auth/auth.service";
+import type { AuthPrincipal } from "../auth/auth.service";
+
+@ApiTags("Audit")
+@ApiBearerAuth()
+@UseGuards(McpAuthGuard)
+@Controller("audit")
+export class AuditController {
+  private readonly logger = new Logger(AuditController.name);
+
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * Recorded tool calls, filtered by address, tool and time range
+   */
+  @Get()
+  @ApiOperation({ summary: "Query the tool invocation audit log" })
+  @ApiResponse({ status: 200, type: AuditLogDto })
+  async getEntries(
+    @Query() query: AuditQueryDto,
+    @Principal() principal: AuthPrincipal | undefined,
+  ): Promise<AuditLogDto> {
+    if (!hasScope(principal, "read")) {
+      this.logger.warn(
+        `Denied audit log to key ${principal?.id}: requires read scope`,
+      );
+      throw new ForbiddenException("The audit log requires the read scope");
+    }
+
+    return { entries: await this.auditService.query(query, principal) };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { AuditService } from "./audit.service";
+import { AuditController } from "./audit.controller";
+import { AuthModule } from "../auth/auth.module";
+
+@Module({
+  imports: [AuthModule],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
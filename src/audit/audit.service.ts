@@ -0,0 +1,180 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createReadStream, existsSync } from "fs";
+import { appendFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import { createInterface } from "readline";
+import { hasScope } from "../auth/auth.service";
+import type { AuthPrincipal } from "../auth/auth.service";
+
+/**
+ * - succeeded: the tool returned a result
+ * - failed: the tool ran and reported an error
+ * - cancelled: the client cancelled or the user declined a confirmation
+ * - rejected: the call never ran (unknown tool, bad arguments, denied)
+ */
+export type AuditOutcome = "succeeded" | "failed" | "cancelled" | "rejected";
+
+export interface AuditEntry {
+  timestamp: string;
+  sessionId?: string;
+  keyId?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  durationMs: number;
+  outcome: AuditOutcome;
+  error?: { code: string | number; message: string };
+  // Answered from an earlier call with the same idempotency key
+  replayed?: boolean;
+  transactionHashes: string[];
+}
+
+export interface AuditFilters {
+  address?: string;
+  tool?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+const TRANSACTION_HASH = /^0x[0-9a-fA-F]{64}$/;
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const SECRET_ARGUMENT =
+  /^(signedTx|signature|privateKey|secret|password|apiKey)$/i;
+const MAX_ARGUMENT_LENGTH = 256;
+
+/**
+ * Append-only JSONL record of every tool invocation
+ */
+@Injectable()
+export class AuditService implements OnModuleInit {
+  private readonly logger = new Logger(AuditService.name);
+  private readonly path: string;
+  // Appends run one after another so lines never interleave
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(configService: ConfigService) {
+    this.path = configService.get<string>("audit.path", "data/audit.jsonl");
+  }
+
+  async onModuleInit() {
+    await mkdir(dirname(this.path), { recursive: true });
+    this.logger.log(`Recording tool calls to ${this.path}`);
+  }
+
+  record(entry: AuditEntry): Promise<void> {
+    const line =
+      JSON.stringify({ ...entry, arguments: sanitize(entry.arguments) }) + "\n";
+
+    this.writes = this.writes
+      .then(() => appendFile(this.path, line))
+      .catch((error) => {
+        this.logger.error(`Failed to write audit entry: ${error.message}`);
+      });
+    return this.writes;
+  }
+
+  /**
+   * Matching entries the caller may see, newest first
+   *
+   * Keys only see their own calls unless they have the admin scope; without
+   * a caller (authentication off) every entry is visible.
+   */
+  async query(
+    filters: AuditFilters,
+    caller?: AuthPrincipal,
+  ): Promise<AuditEntry[]> {
+    await this.writes;
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    const limit = filters.limit ?? 100;
+    const from = filters.from ? Date.parse(filters.from) : -Infinity;
+    const to = filters.to ? Date.parse(filters.to) : Infinity;
+    const address = filters.address?.toLowerCase();
+    const keyId = hasScope(caller, "admin") ? undefined : caller!.id;
+
+    const matches: AuditEntry[] = [];
+    const lines = createInterface({ input: createReadStream(this.path) });
+
+    for await (const line of lines) {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      const time = Date.parse(entry.timestamp);
+      if (
+        time < from ||
+        time > to ||
+        (keyId !== undefined && entry.keyId !== keyId) ||
+        (filters.tool && entry.tool !== filters.tool) ||
+        (address && !findAddresses(entry.arguments).includes(address))
+      ) {
+        continue;
+      }
+
+      // Keep only the most recent matches
+      matches.push(entry);
+      if (matches.length > limit) {
+        matches.shift();
+      }
+    }
+
+    return matches.reverse();
+  }
+}
+
+/**
+ * Transaction hashes in a tool result, under any key mentioning "hash"
+ */
+export function findTransactionHashes(value: unknown, key = ""): string[] {
+  if (typeof value === "string") {
+    return /hash/i.test(key) && TRANSACTION_HASH.test(value) ? [value] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => findTransactionHashes(item, key));
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([name, item]) =>
+      findTransactionHashes(item, name),
+    );
+  }
+  return [];
+}
+
+// Lowercased addresses among the values of tool arguments
+function findAddresses(value: unknown): string[] {
+  if (typeof value === "string") {
+    return ADDRESS.test(value) ? [value.toLowerCase()] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(findAddresses);
+  }
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(findAddresses);
+  }
+  return [];
+}
+
+// Redact secrets and shorten long payloads such as calldata
+function sanitize(value: unknown, key = ""): any {
+  if (SECRET_ARGUMENT.test(key)) {
+    return "[redacted]";
+  }
+  if (typeof value === "string" && value.length > MAX_ARGUMENT_LENGTH) {
+    return `${value.slice(0, MAX_ARGUMENT_LENGTH)}... (${value.length} chars)`;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, key));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, sanitize(item, name)]),
+    );
+  }
+  return value;
+}
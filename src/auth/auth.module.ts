@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { AuthService } from "./auth.service";
+import { McpAuthGuard } from "./mcp-auth.guard";
+import { OAuthService } from "./oauth.service";
+import { OAuthMetadataController } from "./oauth-metadata.controller";
+
+@Module({
+  controllers: [OAuthMetadataController],
+  providers: [AuthService, OAuthService, McpAuthGuard],
+  exports: [AuthService, OAuthService, McpAuthGuard],
+})
+export class AuthModule {}
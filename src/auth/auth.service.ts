@@ -0,0 +1,109 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash, timingSafeEqual } from "crypto";
+import { OAuthService } from "./oauth.service";
+
+/**
+ * What a caller may do:
+ * - read: query positions, markets, quotes and balances
+ * - prepare: build, simulate and broadcast client-signed transactions
+ * - execute: sign and broadcast with the server wallet
+ * - admin: see every key's entries in the audit log, not just its own
+ */
+export const AUTH_SCOPES = ["read", "prepare", "execute", "admin"] as const;
+
+export type AuthScope = (typeof AUTH_SCOPES)[number];
+
+export interface AuthPrincipal {
+  // Name of the key; safe to log, unlike the key itself
+  id: string;
+  scopes: AuthScope[];
+}
+
+interface ApiKey extends AuthPrincipal {
+  digest: Buffer;
+}
+
+/**
+ * Resolves bearer tokens to the API keys configured in MCP_API_KEYS, or to
+ * OAuth access tokens when an issuer is configured
+ *
+ * Keys are written as `name:secret:scope,scope` and separated by `;`.
+ */
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly apiKeys: ApiKey[];
+
+  constructor(
+    configService: ConfigService,
+    private readonly oauthService: OAuthService,
+  ) {
+    this.apiKeys = parseApiKeys(configService.get<string>("auth.apiKeys", ""));
+
+    if (!this.enabled) {
+      this.logger.warn(
+        "Neither MCP_API_KEYS nor OAUTH_ISSUER is configured; the HTTP MCP endpoints are open to anyone",
+      );
+    } else if (this.apiKeys.length > 0) {
+      this.logger.log(`Loaded ${this.apiKeys.length} MCP API keys`);
+    }
+  }
+
+  /**
+   * Without configured keys or issuer every request is let through
+   */
+  get enabled(): boolean {
+    return this.apiKeys.length > 0 || this.oauthService.enabled;
+  }
+
+  async authenticate(token: string): Promise<AuthPrincipal | undefined> {
+    const digest = sha256(token);
+    const key = this.apiKeys.find((candidate) =>
+      timingSafeEqual(candidate.digest, digest),
+    );
+    if (key) {
+      return { id: key.id, scopes: key.scopes };
+    }
+    return this.oauthService.verify(token);
+  }
+}
+
+export function hasScope(
+  principal: AuthPrincipal | undefined,
+  scope: AuthScope,
+): boolean {
+  // No principal means authentication is off, e.g. over stdio
+  return !principal || principal.scopes.includes(scope);
+}
+
+function parseApiKeys(value: string): ApiKey[] {
+  return value
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [id, secret, scopes = ""] = entry.split(":");
+      if (!id || !secret) {
+        // The entry may hold nothing but the secret; keep it out of the error
+        throw new Error("Invalid MCP API key, expected name:secret:scopes");
+      }
+
+      const parsed = scopes
+        .split(",")
+        .map((scope) => scope.trim())
+        .filter(Boolean);
+      for (const scope of parsed) {
+        if (!AUTH_SCOPES.includes(scope as AuthScope)) {
+          throw new Error(`Unknown scope "${scope}" for MCP API key ${id}`);
+        }
+      }
+
+      return { id, scopes: parsed as AuthScope[], digest: sha256(secret) };
+    });
+}
+
+// Comparing fixed-length digests keeps the comparison constant-time
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
@@ -0,0 +1,66 @@
+import { Injectable, Logger, UnauthorizedException } from "@nestjs/common";
+import type { CanActivate, ExecutionContext } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import type { Request, Response } from "express";
+import { AuthService } from "./auth.service";
+import type { AuthPrincipal } from "./auth.service";
+import { OAuthService } from "./oauth.service";
+import { IS_PUBLIC_KEY } from "./public.decorator";
+
+export interface AuthenticatedRequest extends Request {
+  principal?: AuthPrincipal;
+}
+
+/**
+ * Requires an `Authorization: Bearer <token>` header on every non-public
+ * route once API keys or an OAuth issuer are configured
+ */
+@Injectable()
+export class McpAuthGuard implements CanActivate {
+  private readonly logger = new Logger(McpAuthGuard.name);
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly oauthService: OAuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic || !this.authService.enabled) {
+      return true;
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<AuthenticatedRequest>();
+    const [scheme, token] = (request.headers.authorization ?? "").split(" ");
+    const principal =
+      scheme?.toLowerCase() === "bearer" && token
+        ? await this.authService.authenticate(token)
+        : undefined;
+
+    if (!principal) {
+      this.logger.warn(
+        `Rejected ${request.method} ${request.originalUrl} from ${request.ip}: ${token ? "invalid" : "missing"} bearer token`,
+      );
+      http
+        .getResponse<Response>()
+        .setHeader("WWW-Authenticate", this.challenge());
+      throw new UnauthorizedException("A valid bearer token is required");
+    }
+
+    request.principal = principal;
+    return true;
+  }
+
+  // OAuth clients start discovery from the resource_metadata parameter
+  private challenge(): string {
+    const metadataUrl = this.oauthService.resourceMetadataUrl;
+    return metadataUrl
+      ? `Bearer realm="mcp", resource_metadata="${metadataUrl}"`
+      : 'Bearer realm="mcp"';
+  }
+}
@@ -0,0 +1,40 @@
+import { Controller, Get, NotFoundException } from "@nestjs/common";
+import { ApiOperation, ApiTags } from "@nestjs/swagger";
+import { OAuthService } from "./oauth.service";
+
+/**
+ * OAuth discovery documents for remote MCP clients
+ */
+@ApiTags("OAuth")
+@Controller(".well-known")
+export class OAuthMetadataController {
+  constructor(private readonly oauthService: OAuthService) {}
+
+  /**
+   * Protected resource metadata, at the root and at the path-suffixed URL
+   * derived from the /mcp resource
+   */
+  @Get(["oauth-protected-resource", "oauth-protected-resource/mcp"])
+  @ApiOperation({ summary: "OAuth protected resource metadata (RFC 9728)" })
+  getProtectedResourceMetadata() {
+    this.assertEnabled();
+    return this.oauthService.protectedResourceMetadata();
+  }
+
+  /**
+   * The authorization server's own metadata, for clients that still look
+   * for it on the MCP server (protocol revision 2025-03-26)
+   */
+  @Get("oauth-authorization-server")
+  @ApiOperation({ summary: "OAuth authorization server metadata (RFC 8414)" })
+  getAuthorizationServerMetadata() {
+    this.assertEnabled();
+    return this.oauthService.authorizationServerMetadata();
+  }
+
+  private assertEnabled() {
+    if (!this.oauthService.enabled) {
+      throw new NotFoundException("OAuth is not configured");
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import axios from "axios";
+import { createRemoteJWKSet, decodeProtectedHeader, jwtVerify } from "jose";
+import type { JWTPayload } from "jose";
+import { AUTH_SCOPES } from "./auth.service";
+import type { AuthPrincipal, AuthScope } from "./auth.service";
+
+export interface AuthorizationServerMetadata {
+  issuer: string;
+  jwks_uri?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Validates OAuth 2.1 access tokens issued for this server by the
+ * configured authorization server
+ *
+ * The authorization server is discovered from its issuer URL (RFC 8414,
+ * falling back to OpenID Connect discovery); tokens must be JWTs signed with
+ * one of its published keys, issued by it and addressed to this resource.
+ */
+@Injectable()
+export class OAuthService {
+  private readonly logger = new Logger(OAuthService.name);
+  private readonly issuer?: string;
+  private readonly resource?: string;
+  private readonly audience?: string;
+  private metadata?: Promise<AuthorizationServerMetadata>;
+  private jwks?: ReturnType<typeof createRemoteJWKSet>;
+
+  constructor(configService: ConfigService) {
+    this.issuer = configService.get<string>("auth.oauth.issuer") || undefined;
+    this.resource =
+      configService.get<string>("auth.oauth.resource") || undefined;
+    this.audience =
+      configService.get<string>("auth.oauth.audience") || this.resource;
+
+    if (this.issuer && !this.resource) {
+      throw new Error("OAUTH_ISSUER requires MCP_RESOURCE_URL to be set");
+    }
+    if (this.issuer) {
+      this.logger.log(`Accepting OAuth access tokens from ${this.issuer}`);
+    }
+  }
+
+  get enabled(): boolean {
+    return !!this.issuer;
+  }
+
+  /**
+   * Where clients find the protected resource metadata, advertised in
+   * WWW-Authenticate challenges
+   */
+  get resourceMetadataUrl(): string | undefined {
+    return (
+      this.resource && wellKnownUrl(this.resource, "oauth-protected-resource")
+    );
+  }
+
+  /**
+   * Protected resource metadata (RFC 9728)
+   */
+  protectedResourceMetadata() {
+    return {
+      resource: this.resource,
+      authorization_servers: [this.issuer],
+      scopes_supported: [...AUTH_SCOPES],
+      bearer_methods_supported: ["header"],
+      resource_name: "Aave MCP Server",
+    };
+  }
+
+  /**
+   * The authorization server's metadata, fetched once and kept
+   */
+  authorizationServerMetadata(): Promise<AuthorizationServerMetadata> {
+    this.metadata ??= this.discover().catch((error) => {
+      // Try again on the next request instead of caching the failure
+      this.metadata = undefined;
+      throw error;
+    });
+    return this.metadata;
+  }
+
+  /**
+   * Principal for a valid access token, or undefined when it is not one
+   */
+  async verify(token: string): Promise<AuthPrincipal | undefined> {
+    if (!this.issuer) {
+      return undefined;
+    }
+
+    try {
+      // Fails fast on anything that is not a JWT, before any discovery
+      decodeProtectedHeader(token);
+      const { payload } = await jwtVerify(token, await this.keySet(), {
+        issuer: this.issuer,
+        audience: this.audience,
+      });
+      // Prefixed so a token subject can never pass for an API key id
+      const subject = [payload.sub, payload.client_id].find(
+        (value): value is string => typeof value === "string",
+      );
+      return {
+        id: `oauth:${subject ?? "client"}`,
+        scopes: scopesOf(payload),
+      };
+    } catch (error) {
+      this.logger.debug(`Access token rejected: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  private async keySet() {
+    if (!this.jwks) {
+      const { jwks_uri } = await this.authorizationServerMetadata();
+      if (!jwks_uri) {
+        throw new Error(`Authorization server ${this.issuer} has no jwks_uri`);
+      }
+      this.jwks = createRemoteJWKSet(new URL(jwks_uri));
+    }
+    return this.jwks;
+  }
+
+  private async discover(): Promise<AuthorizationServerMetadata> {
+    const issuer = this.issuer as string;
+    const candidates = [
+      wellKnownUrl(issuer, "oauth-authorization-server"),
+      wellKnownUrl(issuer, "openid-configuration"),
+      `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`,
+    ];
+
+    for (const url of candidates) {
+      try {
+        const { data } = await axios.get<AuthorizationServerMetadata>(url, {
+          timeout: 10000,
+        });
+        if (data?.issuer !== issuer) {
+          this.logger.warn(`Ignoring metadata at ${url}: issuer mismatch`);
+          continue;
+        }
+        return data;
+      } catch {
+        this.logger.debug(`No authorization server metadata at ${url}`);
+      }
+    }
+
+    throw new Error(`Could not discover authorization server ${issuer}`);
+  }
+}
+
+/**
+ * RFC 8414 style well-known URL: the suffix goes between host and path
+ */
+function wellKnownUrl(base: string, suffix: string): string {
+  const url = new URL(base);
+  const path = url.pathname.replace(/\/$/, "");
+  return `${url.origin}/.well-known/${suffix}${path}`;
+}
+
+// Scopes come as a space-separated "scope" claim or an "scp" array;
+// anything other than the tool categories is ignored
+function scopesOf(payload: JWTPayload): AuthScope[] {
+  const granted =
+    typeof payload.scope === "string"
+      ? payload.scope.split(" ")
+      : Array.isArray(payload.scp)
+        ? payload.scp.map(String)
+        : [];
+  return AUTH_SCOPES.filter((scope) => granted.includes(scope));
+}
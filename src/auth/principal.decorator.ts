@@ -0,0 +1,12 @@
+import { createParamDecorator } from "@nestjs/common";
+import type { ExecutionContext } from "@nestjs/common";
+import type { AuthenticatedRequest } from "./mcp-auth.guard";
+
+/**
+ * The caller authenticated by McpAuthGuard, or undefined when
+ * authentication is off
+ */
+export const Principal = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().principal,
+);
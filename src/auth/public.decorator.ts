@@ -0,0 +1,8 @@
+import { SetMetadata } from "@nestjs/common";
+
+export const IS_PUBLIC_KEY = "auth:public";
+
+/**
+ * Serve a route without authentication, e.g. health checks
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
@@ -1,9 +1,10 @@
 import { Module, Global } from "@nestjs/common";
 import { BlockchainService } from "./blockchain.service";
+import { MulticallService } from "./multicall.service";
 
 @Global()
 @Module({
-  providers: [BlockchainService],
-  exports: [BlockchainService],
+  providers: [BlockchainService, MulticallService],
+  exports: [BlockchainService, MulticallService],
 })
 export class BlockchainModule {}
@@ -1,17 +1,33 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { ethers } from "ethers";
+import { DryRunSigner } from "./dry-run-signer";
+import { ChainCacheService } from "../cache/chain-cache.service";
+import type { ExecutionOptions } from "../common/interfaces/execution-options.interface";
+
+/**
+ * - simulate: state-changing tools only describe what they would do
+ * - prepare-only: tools that sign with the server wallet are disabled;
+ *   clients build transactions with the prepare_* tools and sign them
+ * - execute: the server wallet signs and broadcasts
+ */
+export const EXECUTION_MODES = ["simulate", "prepare-only", "execute"] as const;
+
+export type ExecutionMode = (typeof EXECUTION_MODES)[number];
 
 @Injectable()
 export class BlockchainService {
   private readonly logger = new Logger(BlockchainService.name);
   private provider: ethers.providers.JsonRpcProvider;
   private wallet: ethers.Wallet | null = null;
-  private decimalsCache: Map<string, number> = new Map();
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private cacheService: ChainCacheService,
+  ) {
     const rpcUrl = this.configService.get<string>("blockchain.rpcUrl");
     this.provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    this.cacheService.useProvider(this.provider);
 
     const privateKey = this.configService.get<string>("blockchain.privateKey");
     if (privateKey) {
@@ -19,6 +35,14 @@ export class BlockchainService {
       this.logger.log(`Wallet initialized: ${this.wallet.address}`);
     }
 
+    const executionMode = this.getExecutionMode();
+    if (!EXECUTION_MODES.includes(executionMode)) {
+      throw new Error(
+        `Invalid EXECUTION_MODE "${executionMode}", expected one of: ${EXECUTION_MODES.join(", ")}`,
+      );
+    }
+    this.logger.log(`Execution mode: ${executionMode}`);
+
     // Preload decimals for known tokens
     setTimeout(() => this.preloadTokenDecimals(), 100);
   }
@@ -46,14 +70,16 @@ export class BlockchainService {
     };
 
     // Preload known decimals into cache
+    let preloaded = 0;
     for (const [symbol, address] of Object.entries(tokens)) {
       if (knownDecimals[symbol] !== undefined) {
-        this.decimalsCache.set(address, knownDecimals[symbol]);
+        this.cacheService.set("tokens", `decimals:${address.toLowerCase()}`, knownDecimals[symbol]);
         this.logger.debug(`Preloaded decimals for ${symbol}: ${knownDecimals[symbol]}`);
+        preloaded++;
       }
     }
 
-    this.logger.log(`Preloaded decimals for ${this.decimalsCache.size} tokens`);
+    this.logger.log(`Preloaded decimals for ${preloaded} tokens`);
   }
 
   getProvider(): ethers.providers.JsonRpcProvider {
@@ -64,7 +90,21 @@ export class BlockchainService {
     return this.wallet;
   }
 
-  getSigner(userAddress?: string): ethers.Signer {
+  /**
+   * Signer for the server wallet, or one that only records transactions
+   * when the call is a dry run
+   */
+  getSigner(
+    userAddress?: string,
+    options: ExecutionOptions = {},
+  ): ethers.Signer {
+    if (options.dryRun) {
+      return new DryRunSigner(
+        this.wallet?.address ?? userAddress ?? ethers.constants.AddressZero,
+        this.provider,
+        options.dryRun,
+      );
+    }
     if (userAddress && !this.wallet) {
       // Read-only mode for specific user
       return this.provider.getSigner(userAddress);
@@ -107,25 +147,23 @@ export class BlockchainService {
   }
 
   async getTokenDecimals(tokenAddress: string): Promise<number> {
-    // Check cache first
-    if (this.decimalsCache.has(tokenAddress)) {
-      return this.decimalsCache.get(tokenAddress)!;
-    }
-
     try {
-      const tokenContract = new ethers.Contract(
-        tokenAddress,
-        ["function decimals() view returns (uint8)"],
-        this.provider,
+      return await this.cacheService.wrap(
+        "tokens",
+        `decimals:${tokenAddress.toLowerCase()}`,
+        async () => {
+          const tokenContract = new ethers.Contract(
+            tokenAddress,
+            ["function decimals() view returns (uint8)"],
+            this.provider,
+          );
+          const decimals = await tokenContract.decimals();
+          this.logger.debug(`Cached decimals for ${tokenAddress}: ${decimals}`);
+          return decimals;
+        },
       );
-      const decimals = await tokenContract.decimals();
-
-      // Cache the result
-      this.decimalsCache.set(tokenAddress, decimals);
-      this.logger.debug(`Cached decimals for ${tokenAddress}: ${decimals}`);
-
-      return decimals;
     } catch (error) {
+      // Guesses are not cached, so the next call reads the chain again
       this.logger.warn(
         `Error getting decimals for ${tokenAddress}, checking common patterns`,
       );
@@ -135,30 +173,33 @@ export class BlockchainService {
 
       // Common decimal patterns
       if (tokenSymbol.includes("USDC") || tokenSymbol.includes("USDT") || tokenSymbol.includes("EURC")) {
-        this.decimalsCache.set(tokenAddress, 6);
         return 6;
       }
       if (tokenSymbol.includes("DAI") || tokenSymbol.includes("GHO") ||
           tokenSymbol.includes("ETH") || tokenSymbol.includes("BTC") ||
           tokenSymbol.includes("AAVE")) {
-        this.decimalsCache.set(tokenAddress, 18);
         return 18;
       }
 
       // Default to 18 (most common for ERC20)
-      this.decimalsCache.set(tokenAddress, 18);
       return 18;
     }
   }
 
   async getTokenSymbol(tokenAddress: string): Promise<string> {
     try {
-      const tokenContract = new ethers.Contract(
-        tokenAddress,
-        ["function symbol() view returns (string)"],
-        this.provider,
+      return await this.cacheService.wrap(
+        "tokens",
+        `symbol:${tokenAddress.toLowerCase()}`,
+        () => {
+          const tokenContract = new ethers.Contract(
+            tokenAddress,
+            ["function symbol() view returns (string)"],
+            this.provider,
+          );
+          return tokenContract.symbol();
+        },
       );
-      return await tokenContract.symbol();
     } catch (error) {
       this.logger.error(`Error getting symbol for ${tokenAddress}`);
       throw error;
@@ -215,9 +256,19 @@ export class BlockchainService {
     return address;
   }
 
-  isAutoExecuteEnabled(): boolean {
-    // return this.configService.get<boolean>("blockchain.autoExecute") || false;
-    return true;
+  getExecutionMode(): ExecutionMode {
+    return this.configService.get<ExecutionMode>(
+      "blockchain.executionMode",
+      "execute",
+    );
+  }
+
+  /**
+   * Whether an operation goes past planning to its transactions; dry runs
+   * always do, since their signer only records
+   */
+  isAutoExecuteEnabled(options: ExecutionOptions = {}): boolean {
+    return !!options.dryRun || this.getExecutionMode() === "execute";
   }
 
   getWalletAddress(): string {
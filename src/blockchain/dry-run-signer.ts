@@ -0,0 +1,121 @@
+import { ethers } from "ethers";
+import type { PlannedTransaction } from "../common/interfaces/execution-options.interface";
+
+// Assumed when a step cannot be estimated before earlier planned
+// transactions land
+const FALLBACK_GAS_LIMIT = 500000;
+
+/**
+ * Signer that records transactions instead of signing and sending them
+ *
+ * Services keep their usual pipeline; every transaction they would send is
+ * populated (nonce, gas limit, fees) and appended to the plan, and a mined
+ * receipt is faked so the pipeline carries on to its next step.
+ */
+export class DryRunSigner extends ethers.Signer {
+  private estimateFailed = false;
+
+  constructor(
+    private readonly address: string,
+    provider: ethers.providers.Provider,
+    private readonly planned: PlannedTransaction[],
+  ) {
+    super();
+    ethers.utils.defineReadOnly(this, "provider", provider);
+  }
+
+  getAddress(): Promise<string> {
+    return Promise.resolve(this.address);
+  }
+
+  signMessage(): Promise<string> {
+    return Promise.reject(new Error("Nothing is signed in a dry run"));
+  }
+
+  signTransaction(): Promise<string> {
+    return Promise.reject(new Error("Nothing is signed in a dry run"));
+  }
+
+  connect(provider: ethers.providers.Provider): DryRunSigner {
+    return new DryRunSigner(this.address, provider, this.planned);
+  }
+
+  // Each planned transaction would have used up a nonce
+  async getTransactionCount(blockTag?: ethers.providers.BlockTag) {
+    return (await super.getTransactionCount(blockTag)) + this.planned.length;
+  }
+
+  async estimateGas(
+    transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>,
+  ): Promise<ethers.BigNumber> {
+    try {
+      return await super.estimateGas(transaction);
+    } catch (error) {
+      // Without earlier planned steps a revert is a real failure
+      if (this.planned.length === 0) {
+        throw error;
+      }
+      this.estimateFailed = true;
+      return ethers.BigNumber.from(FALLBACK_GAS_LIMIT);
+    }
+  }
+
+  async sendTransaction(
+    transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>,
+  ): Promise<ethers.providers.TransactionResponse> {
+    const tx = await this.populateTransaction(transaction);
+    const gasLimit = ethers.BigNumber.from(tx.gasLimit);
+
+    this.planned.push({
+      from: this.address,
+      to: tx.to as string,
+      data: ethers.utils.hexlify(tx.data ?? "0x"),
+      value: ethers.BigNumber.from(tx.value ?? 0).toString(),
+      nonce: ethers.BigNumber.from(tx.nonce).toNumber(),
+      gasLimit: gasLimit.toString(),
+      ...(tx.gasPrice && {
+        gasPrice: ethers.BigNumber.from(tx.gasPrice).toString(),
+      }),
+      ...(tx.maxFeePerGas && {
+        maxFeePerGas: ethers.BigNumber.from(tx.maxFeePerGas).toString(),
+      }),
+      ...(tx.maxPriorityFeePerGas && {
+        maxPriorityFeePerGas: ethers.BigNumber.from(
+          tx.maxPriorityFeePerGas,
+        ).toString(),
+      }),
+      chainId: tx.chainId as number,
+      ...(tx.type != null && { type: tx.type }),
+      gasEstimated: !this.estimateFailed,
+    });
+    this.estimateFailed = false;
+
+    // Nothing was sent, so there is no real hash or block
+    const hash = ethers.constants.HashZero;
+    const receipt = {
+      to: tx.to,
+      from: this.address,
+      contractAddress: null,
+      transactionIndex: 0,
+      gasUsed: gasLimit,
+      cumulativeGasUsed: gasLimit,
+      logsBloom: "0x",
+      blockHash: hash,
+      transactionHash: hash,
+      logs: [],
+      blockNumber: 0,
+      confirmations: 0,
+      byzantium: true,
+      type: tx.type ?? 0,
+      status: 1,
+    } as unknown as ethers.providers.TransactionReceipt;
+
+    return {
+      ...tx,
+      hash,
+      from: this.address,
+      confirmations: 0,
+      wait: () => Promise.resolve(receipt),
+    } as unknown as ethers.providers.TransactionResponse;
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { ethers } from "ethers";
+import { BlockchainService } from "./blockchain.service";
+
+// aggregate3 is payable, but declaring it view lets it go through eth_call
+const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) view returns (tuple(bool success, bytes returnData)[] returnData)",
+];
+
+// Keeps each eth_call well under public RPC gas caps
+const MAX_CALLS_PER_BATCH = 150;
+
+export interface MulticallRequest {
+  contract: ethers.Contract;
+  method: string;
+  args?: unknown[];
+}
+
+export type MulticallResult =
+  | { success: true; value: ethers.utils.Result }
+  | { success: false; error: Error };
+
+/**
+ * Batches contract reads through Multicall3 so a whole list of calls costs
+ * one round trip
+ */
+@Injectable()
+export class MulticallService {
+  private readonly multicall: ethers.Contract;
+
+  constructor(
+    configService: ConfigService,
+    blockchainService: BlockchainService,
+  ) {
+    this.multicall = new ethers.Contract(
+      configService.get<string>("contracts.multicall3")!,
+      MULTICALL3_ABI,
+      blockchainService.getProvider(),
+    );
+  }
+
+  /**
+   * Run every request in as few eth_calls as possible
+   *
+   * A reverting or undecodable call only fails its own result, in the same
+   * position as its request; a failed batch rejects.
+   */
+  async call(requests: MulticallRequest[]): Promise<MulticallResult[]> {
+    const batches: MulticallRequest[][] = [];
+    for (let i = 0; i < requests.length; i += MAX_CALLS_PER_BATCH) {
+      batches.push(requests.slice(i, i + MAX_CALLS_PER_BATCH));
+    }
+
+    const results = await Promise.all(
+      batches.map((batch) => this.callBatch(batch)),
+    );
+    return results.flat();
+  }
+
+  private async callBatch(
+    requests: MulticallRequest[],
+  ): Promise<MulticallResult[]> {
+    const responses: { success: boolean; returnData: string }[] =
+      await this.multicall.aggregate3(
+        requests.map(({ contract, method, args = [] }) => ({
+          target: contract.address,
+          allowFailure: true,
+          callData: contract.interface.encodeFunctionData(method, args),
+        })),
+      );
+
+    return responses.map(({ success, returnData }, index) => {
+      const { contract, method } = requests[index];
+      if (!success) {
+        return {
+          success: false,
+          error: new Error(`${method} reverted on ${contract.address}`),
+        };
+      }
+      try {
+        return {
+          success: true,
+          value: contract.interface.decodeFunctionResult(method, returnData),
+        };
+      } catch (error) {
+        return { success: false, error };
+      }
+    });
+  }
+}
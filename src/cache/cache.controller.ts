@@ -0,0 +1,46 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  Logger,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "@nestjs/swagger";
+import { ChainCacheService } from "./chain-cache.service";
+import { CacheStatsDto } from "../common/dto/cache-result.dto";
+import { McpAuthGuard } from "../auth/mcp-auth.guard";
+import { Principal } from "../auth/principal.decorator";
+import { hasScope } from "../auth/auth.service";
+import type { AuthPrincipal } from "../auth/auth.service";
+
+@ApiTags("Cache")
+@ApiBearerAuth()
+@UseGuards(McpAuthGuard)
+@Controller("cache")
+export class CacheController {
+  private readonly logger = new Logger(CacheController.name);
+
+  constructor(private readonly cacheService: ChainCacheService) {}
+
+  /**
+   * Hit and miss counts of the on-chain read cache
+   */
+  @Get("stats")
+  @ApiOperation({ summary: "On-chain read cache statistics" })
+  @ApiResponse({ status: 200, type: CacheStatsDto })
+  getStats(@Principal() principal: AuthPrincipal | undefined): CacheStatsDto {
+    if (!hasScope(principal, "read")) {
+      this.logger.warn(
+        `Denied cache stats to key ${principal?.id}: requires read scope`,
+      );
+      throw new ForbiddenException("Cache stats require the read scope");
+    }
+
+    return { namespaces: this.cacheService.stats() };
+  }
+}
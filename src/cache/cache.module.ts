@@ -0,0 +1,13 @@
+import { Global, Module } from "@nestjs/common";
+import { ChainCacheService } from "./chain-cache.service";
+import { CacheController } from "./cache.controller";
+import { AuthModule } from "../auth/auth.module";
+
+@Global()
+@Module({
+  imports: [AuthModule],
+  controllers: [CacheController],
+  providers: [ChainCacheService],
+  exports: [ChainCacheService],
+})
+export class CacheModule {}
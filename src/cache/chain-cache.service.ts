@@ -0,0 +1,204 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import type { ethers } from "ethers";
+
+export const CACHE_NAMESPACES = [
+  "reserves",
+  "reserveConfig",
+  "prices",
+  "positions",
+  "accounts",
+  "tokens",
+] as const;
+
+export type CacheNamespace = (typeof CACHE_NAMESPACES)[number];
+
+// Values that move every block are kept for the block they were read in;
+// the rest only change through governance or never, and expire by TTL
+const BLOCK_SCOPED: readonly CacheNamespace[] = [
+  "reserves",
+  "prices",
+  "positions",
+  "accounts",
+];
+
+export interface CacheNamespaceStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  // Hits over lookups, 0 before the first lookup
+  hitRate: number;
+}
+
+interface CacheEntry {
+  value: Promise<unknown>;
+  // Block the value was read at, for block-scoped namespaces
+  block?: number;
+  expiresAt?: number;
+}
+
+/**
+ * Shared cache for on-chain reads
+ *
+ * Block-scoped values are reused until a new block is seen; the current
+ * block number is itself re-read at most once per block time. Concurrent
+ * lookups of a missing key share one load, and failed loads are not kept.
+ */
+@Injectable()
+export class ChainCacheService {
+  private readonly logger = new Logger(ChainCacheService.name);
+  private readonly entries = new Map<CacheNamespace, Map<string, CacheEntry>>(
+    CACHE_NAMESPACES.map((namespace) => [namespace, new Map()]),
+  );
+  private readonly counters = new Map<
+    CacheNamespace,
+    { hits: number; misses: number }
+  >(CACHE_NAMESPACES.map((namespace) => [namespace, { hits: 0, misses: 0 }]));
+  private readonly ttls: Record<CacheNamespace, number>;
+  private readonly blockTime: number;
+  private provider?: ethers.providers.Provider;
+  private block?: { number: Promise<number>; readAt: number };
+
+  constructor(configService: ConfigService) {
+    this.blockTime = configService.get<number>("cache.blockTime", 2000);
+    const reserveConfigTtl = configService.get<number>(
+      "cache.reserveConfigTtl",
+      3600000,
+    );
+    const tokenTtl = configService.get<number>("cache.tokenTtl", 86400000);
+    this.ttls = {
+      reserves: this.blockTime,
+      reserveConfig: reserveConfigTtl,
+      prices: this.blockTime,
+      positions: this.blockTime,
+      accounts: this.blockTime,
+      tokens: tokenTtl,
+    };
+  }
+
+  /**
+   * Provider whose block number keys block-scoped entries; until one is
+   * set they expire after one block time instead
+   */
+  useProvider(provider: ethers.providers.Provider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Cached value for the key, loading and storing it on a miss
+   */
+  async wrap<T>(
+    namespace: CacheNamespace,
+    key: string,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    const now = Date.now();
+    const block = BLOCK_SCOPED.includes(namespace)
+      ? await this.currentBlock(now)
+      : undefined;
+    const entries = this.entries.get(namespace)!;
+    const counters = this.counters.get(namespace)!;
+    this.evictStale(entries, now, block);
+
+    const cached = entries.get(key);
+    if (cached) {
+      counters.hits++;
+      return cached.value as Promise<T>;
+    }
+
+    counters.misses++;
+    const entry: CacheEntry = {
+      value: load(),
+      ...(block !== undefined
+        ? { block }
+        : { expiresAt: now + this.ttls[namespace] }),
+    };
+    entries.set(key, entry);
+
+    try {
+      return (await entry.value) as T;
+    } catch (error) {
+      if (entries.get(key) === entry) {
+        entries.delete(key);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store a value known without reading the chain
+   */
+  set(namespace: CacheNamespace, key: string, value: unknown) {
+    this.entries.get(namespace)!.set(key, {
+      value: Promise.resolve(value),
+      expiresAt: Date.now() + this.ttls[namespace],
+    });
+  }
+
+  /**
+   * Drop one entry, or the whole namespace when no key is given
+   */
+  invalidate(namespace: CacheNamespace, key?: string) {
+    const entries = this.entries.get(namespace)!;
+    if (key === undefined) {
+      entries.clear();
+    } else {
+      entries.delete(key);
+    }
+  }
+
+  stats(): Record<CacheNamespace, CacheNamespaceStats> {
+    const stats = {} as Record<CacheNamespace, CacheNamespaceStats>;
+    for (const namespace of CACHE_NAMESPACES) {
+      const { hits, misses } = this.counters.get(namespace)!;
+      stats[namespace] = {
+        hits,
+        misses,
+        entries: this.entries.get(namespace)!.size,
+        hitRate: hits + misses === 0 ? 0 : hits / (hits + misses),
+      };
+    }
+    return stats;
+  }
+
+  // Undefined when no provider is set or the block number cannot be read;
+  // entries then fall back to expiring after one block time
+  private async currentBlock(now: number): Promise<number | undefined> {
+    if (!this.provider) {
+      return undefined;
+    }
+
+    let block = this.block;
+    if (!block || now - block.readAt >= this.blockTime) {
+      block = { number: this.provider.getBlockNumber(), readAt: now };
+      this.block = block;
+    }
+
+    try {
+      return await block.number;
+    } catch (error) {
+      // Try again on the next lookup
+      if (this.block === block) {
+        this.block = undefined;
+      }
+      this.logger.warn(`Failed to read block number: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private evictStale(
+    entries: Map<string, CacheEntry>,
+    now: number,
+    block?: number,
+  ) {
+    for (const [key, entry] of entries) {
+      const stale =
+        entry.block !== undefined
+          ? block === undefined || entry.block < block
+          : entry.expiresAt! <= now;
+      if (stale) {
+        entries.delete(key);
+      }
+    }
+  }
+}
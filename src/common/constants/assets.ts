@@ -0,0 +1,27 @@
+// Assets with a configured token address (see config/configuration.ts)
+export const SUPPORTED_ASSETS = [
+  "USDC",
+  "USDbC",
+  "USDT",
+  "DAI",
+  "GHO",
+  "EURC",
+  "WETH",
+  "cbETH",
+  "wstETH",
+  "weETH",
+  "ezETH",
+  "wrsETH",
+  "cbBTC",
+  "LBTC",
+  "AAVE",
+];
+
+export const STABLECOIN_ASSETS = [
+  "USDC",
+  "USDbC",
+  "USDT",
+  "DAI",
+  "GHO",
+  "EURC",
+];
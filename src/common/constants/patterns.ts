@@ -0,0 +1,18 @@
+// 0x-prefixed 20-byte hex address
+export const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+// Positive decimal amount in token units, e.g. "10" or "0.5"
+export const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+// Decimal amount or "max" for the full position
+export const AMOUNT_OR_MAX_PATTERN = /^(\d+(\.\d+)?|max)$/;
+
+// 0x-prefixed hex payload such as a signed transaction
+export const HEX_PATTERN = /^0x[0-9a-fA-F]+$/;
+
+export const ADDRESS_MESSAGE =
+  "$property must be a 0x-prefixed 40 character hex address";
+export const AMOUNT_MESSAGE = "$property must be a decimal number string";
+export const AMOUNT_OR_MAX_MESSAGE =
+  '$property must be a decimal number string or "max"';
+export const HEX_MESSAGE = "$property must be a 0x-prefixed hex string";
@@ -0,0 +1,125 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class ReserveData {
+  @ApiProperty({ description: "Asset symbol", example: "USDC" })
+  symbol: string;
+
+  @ApiProperty({ description: "Token address" })
+  address: string;
+
+  @ApiProperty({ description: "Supply APY in percent" })
+  apy: number;
+
+  @ApiProperty({ description: "Variable borrow APY in percent" })
+  borrowApy: number;
+
+  @ApiProperty({ description: "Total supplied, in token units" })
+  totalSupplied: string;
+
+  @ApiProperty({ description: "Total borrowed, in token units" })
+  totalBorrowed: string;
+
+  @ApiProperty({ description: "Liquidity available to borrow" })
+  availableLiquidity: string;
+
+  @ApiProperty({ description: "Whether the asset can be used as collateral" })
+  usageAsCollateralEnabled: boolean;
+
+  @ApiProperty({ description: "Loan to value in percent" })
+  ltv: number;
+}
+
+export class UserPosition {
+  @ApiProperty({ description: "Asset symbol", example: "USDC" })
+  asset: string;
+
+  @ApiProperty({ description: "Supplied amount, in token units" })
+  supplied: string;
+
+  @ApiProperty({ description: "Borrowed amount, in token units" })
+  borrowed: string;
+
+  @ApiProperty({ description: "Supply APY in percent" })
+  apy: number;
+
+  @ApiProperty({ description: "Borrow APY in percent", required: false })
+  borrowApy?: number;
+
+  @ApiProperty({ description: "Whether the position is used as collateral" })
+  collateralEnabled: boolean;
+}
+
+export class UserAccountData {
+  @ApiProperty({ description: "Total collateral in USD" })
+  totalCollateral: string;
+
+  @ApiProperty({ description: "Total debt in USD" })
+  totalDebt: string;
+
+  @ApiProperty({ description: "Available borrows in USD" })
+  availableBorrows: string;
+
+  @ApiProperty({ description: "Liquidation threshold in percent" })
+  currentLiquidationThreshold: number;
+
+  @ApiProperty({ description: "Loan to value in percent" })
+  ltv: number;
+
+  @ApiProperty({
+    description: "Health factor, or a marker when there is no debt",
+  })
+  healthFactor: string;
+}
+
+export class ReserveListDto {
+  @ApiProperty({ type: [ReserveData] })
+  reserves: ReserveData[];
+}
+
+export class UserPositionListDto {
+  @ApiProperty({ type: [UserPosition] })
+  positions: UserPosition[];
+}
+
+export class StrategyDto {
+  @ApiProperty({ description: "Strategy type", enum: ["supply", "leverage"] })
+  type: string;
+
+  @ApiProperty({ description: "Asset to supply", required: false })
+  asset?: string;
+
+  @ApiProperty({ description: "Strategy description", required: false })
+  description?: string;
+
+  @ApiProperty({ description: "Supply APY", required: false })
+  apy?: string;
+
+  @ApiProperty({ description: "Total supplied", required: false })
+  totalSupplied?: string;
+
+  @ApiProperty({ description: "Liquidity available", required: false })
+  availableLiquidity?: string;
+
+  @ApiProperty({ description: "Usable as collateral", required: false })
+  canUseAsCollateral?: boolean;
+
+  @ApiProperty({ description: "Loan to value", required: false })
+  ltv?: string;
+
+  @ApiProperty({ description: "Supply APY of the collateral", required: false })
+  supplyApy?: string;
+
+  @ApiProperty({ description: "Borrow APY", required: false })
+  borrowApy?: string;
+
+  @ApiProperty({ description: "Net APY of the position", required: false })
+  netApy?: string;
+
+  @ApiProperty({ description: "Maximum leverage", required: false })
+  maxLeverage?: string;
+}
+
+export class StrategyListDto {
+  @ApiProperty({ type: [StrategyDto] })
+  strategies: StrategyDto[];
+}
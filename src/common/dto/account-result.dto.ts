@@ -0,0 +1,25 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+export class BalanceResultDto {
+  @ApiProperty({ description: "Wallet address" })
+  address: string;
+
+  @ApiProperty({ description: "Token symbol", example: "ETH" })
+  token: string;
+
+  @ApiProperty({ description: "Balance in token units" })
+  balance: string;
+}
+
+export class BalancesResultDto {
+  @ApiProperty({ description: "Wallet address" })
+  address: string;
+
+  @ApiProperty({ description: "Balances in token units, keyed by symbol" })
+  balances: Record<string, string>;
+}
+
+export class GasPriceDto {
+  @ApiProperty({ description: "Gas price in gwei" })
+  gasPrice: string;
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsString, IsOptional, Matches } from "class-validator";
+import { ADDRESS_PATTERN, ADDRESS_MESSAGE } from "../constants/patterns";
+
+export class UserAddressDto {
+  @ApiProperty({ description: "User wallet address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  userAddress: string;
+}
+
+export class AddressDto {
+  @ApiProperty({ description: "Wallet address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  address: string;
+}
+
+export class BalanceDto extends AddressDto {
+  @ApiProperty({
+    description: "Token symbol (optional, ETH if not specified)",
+    example: "USDC",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  token?: string;
+}
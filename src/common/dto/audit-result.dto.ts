@@ -0,0 +1,62 @@
+import { ApiProperty } from "@nestjs/swagger";
+import type { AuditEntry, AuditOutcome } from "../../audit/audit.service";
+
+export class AuditErrorDto {
+  @ApiProperty({ description: "Tool error code or JSON-RPC error code" })
+  code: string | number;
+
+  @ApiProperty({ description: "Error message" })
+  message: string;
+}
+
+export class AuditEntryDto implements AuditEntry {
+  @ApiProperty({ description: "When the call was received (ISO 8601)" })
+  timestamp: string;
+
+  @ApiProperty({ description: "MCP session id", required: false })
+  sessionId?: string;
+
+  @ApiProperty({
+    description: "Name of the calling API key or OAuth subject",
+    required: false,
+  })
+  keyId?: string;
+
+  @ApiProperty({ description: "Tool name" })
+  tool: string;
+
+  @ApiProperty({
+    description: "Arguments as sent, with secrets redacted",
+    type: Object,
+  })
+  arguments: Record<string, unknown>;
+
+  @ApiProperty({ description: "Time taken in milliseconds" })
+  durationMs: number;
+
+  @ApiProperty({
+    description: "How the call ended",
+    enum: ["succeeded", "failed", "cancelled", "rejected"],
+  })
+  outcome: AuditOutcome;
+
+  @ApiProperty({ type: AuditErrorDto, required: false })
+  error?: AuditErrorDto;
+
+  @ApiProperty({
+    description: "Answered from an earlier call with the same idempotency key",
+    required: false,
+  })
+  replayed?: boolean;
+
+  @ApiProperty({
+    description: "Hashes of the transactions sent",
+    type: [String],
+  })
+  transactionHashes: string[];
+}
+
+export class AuditLogDto {
+  @ApiProperty({ type: [AuditEntryDto] })
+  entries: AuditEntryDto[];
+}
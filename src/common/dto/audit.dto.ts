@@ -0,0 +1,64 @@
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  IsInt,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { ADDRESS_PATTERN, ADDRESS_MESSAGE } from "../constants/patterns";
+
+export class AuditQueryDto {
+  @ApiProperty({
+    description: "Only calls with this address among their arguments",
+    example: "0x...",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  address?: string;
+
+  @ApiProperty({
+    description: "Only calls to this tool",
+    example: "smart_stake",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  tool?: string;
+
+  @ApiProperty({
+    description: "Earliest call time (ISO 8601)",
+    example: "2025-01-01T00:00:00Z",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsISO8601()
+  from?: string;
+
+  @ApiProperty({
+    description: "Latest call time (ISO 8601)",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsISO8601()
+  to?: string;
+
+  @ApiProperty({
+    description: "Maximum number of entries, newest first",
+    default: 100,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
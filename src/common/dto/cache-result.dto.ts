@@ -0,0 +1,28 @@
+import { ApiProperty } from "@nestjs/swagger";
+import type {
+  CacheNamespace,
+  CacheNamespaceStats,
+} from "../../cache/chain-cache.service";
+
+export class CacheNamespaceStatsDto implements CacheNamespaceStats {
+  @ApiProperty({ description: "Lookups answered from the cache" })
+  hits: number;
+
+  @ApiProperty({ description: "Lookups that read the chain" })
+  misses: number;
+
+  @ApiProperty({ description: "Entries currently held" })
+  entries: number;
+
+  @ApiProperty({ description: "Hits over lookups, 0 before any lookup" })
+  hitRate: number;
+}
+
+export class CacheStatsDto {
+  @ApiProperty({
+    description:
+      "Stats per namespace: reserves, reserveConfig, prices, positions, accounts, tokens",
+    type: Object,
+  })
+  namespaces: Record<CacheNamespace, CacheNamespaceStatsDto>;
+}
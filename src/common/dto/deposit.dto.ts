@@ -0,0 +1,58 @@
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsIn,
+  Min,
+  Max,
+  Matches,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { SUPPORTED_ASSETS } from "../constants/assets";
+import {
+  ADDRESS_PATTERN,
+  ADDRESS_MESSAGE,
+  AMOUNT_PATTERN,
+  AMOUNT_MESSAGE,
+} from "../constants/patterns";
+
+export class SmartDepositDto {
+  @ApiProperty({ description: "Amount to deposit in USD", example: "100" })
+  @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
+  targetAmount: string;
+
+  @ApiProperty({
+    description: "Asset to deposit (default: USDC)",
+    example: "USDC",
+    default: "USDC",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsIn(SUPPORTED_ASSETS)
+  targetAsset?: string;
+
+  @ApiProperty({
+    description: "Wallet address (defaults to the server wallet)",
+    example: "0x...",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  userAddress?: string;
+
+  @ApiProperty({
+    description: "Maximum slippage for swap (1-5%)",
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(5)
+  maxSlippage?: number;
+}
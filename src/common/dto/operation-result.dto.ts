@@ -0,0 +1,81 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { PlannedTransactionDto } from "./transaction-result.dto";
+
+export class DryRunCheckDto {
+  @ApiProperty({ description: "Step identifier, e.g. quote" })
+  step: string;
+
+  @ApiProperty({ description: "What the step found" })
+  message: string;
+}
+
+/**
+ * Result of a state-changing operation (stake, swap, borrow...)
+ *
+ * Operations report either a mined transaction or, in simulation mode, what
+ * they would have done. Dry runs list the exact transactions instead.
+ * Composite operations add their own fields.
+ */
+export class OperationResultDto {
+  @ApiProperty({
+    description: "Whether the operation succeeded",
+    required: false,
+  })
+  success?: boolean;
+
+  @ApiProperty({
+    description: "Set when nothing was sent on-chain",
+    required: false,
+  })
+  simulation?: boolean;
+
+  @ApiProperty({ description: "Human readable summary", required: false })
+  message?: string;
+
+  @ApiProperty({ description: "Transaction hash", required: false })
+  transactionHash?: string;
+
+  @ApiProperty({ description: "Block explorer link", required: false })
+  transactionUrl?: string;
+
+  @ApiProperty({
+    description: "Block the transaction was mined in",
+    required: false,
+  })
+  blockNumber?: number;
+
+  @ApiProperty({ description: "Gas used by the transaction", required: false })
+  gasUsed?: string;
+
+  @ApiProperty({ description: "Asset symbol", required: false })
+  asset?: string;
+
+  @ApiProperty({ description: "Amount in token units", required: false })
+  amount?: string;
+
+  @ApiProperty({ description: "Wallet the operation ran for", required: false })
+  userAddress?: string;
+
+  @ApiProperty({
+    description: "Failure reason of a partial operation",
+    required: false,
+  })
+  error?: string;
+
+  @ApiProperty({ description: "Set for dry runs", required: false })
+  dryRun?: boolean;
+
+  @ApiProperty({
+    description: "Transactions a dry run would send, in order",
+    type: [PlannedTransactionDto],
+    required: false,
+  })
+  transactions?: PlannedTransactionDto[];
+
+  @ApiProperty({
+    description: "Checks and quotes a dry run went through",
+    type: [DryRunCheckDto],
+    required: false,
+  })
+  checks?: DryRunCheckDto[];
+}
@@ -0,0 +1,38 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsString, IsIn, Matches } from "class-validator";
+import { SUPPORTED_ASSETS } from "../constants/assets";
+import {
+  ADDRESS_PATTERN,
+  ADDRESS_MESSAGE,
+  AMOUNT_PATTERN,
+  AMOUNT_MESSAGE,
+} from "../constants/patterns";
+
+export class MoveToBestYieldPromptDto {
+  @ApiProperty({ description: "Amount to move", example: "1000" })
+  @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
+  amount: string;
+
+  @ApiProperty({ description: "Asset currently held", example: "USDT" })
+  @IsString()
+  @IsIn(SUPPORTED_ASSETS)
+  asset: string;
+
+  @ApiProperty({ description: "Wallet address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  address: string;
+}
+
+export class DeleveragePromptDto {
+  @ApiProperty({ description: "Wallet address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  address: string;
+
+  @ApiProperty({ description: "Health factor to reach", example: "2" })
+  @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
+  target: string;
+}
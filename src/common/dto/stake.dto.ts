@@ -4,10 +4,21 @@ import {
   IsNumber,
   IsOptional,
   IsBoolean,
+  IsIn,
   Min,
   Max,
+  Matches,
 } from "class-validator";
 import { Type } from "class-transformer";
+import { STABLECOIN_ASSETS, SUPPORTED_ASSETS } from "../constants/assets";
+import {
+  ADDRESS_PATTERN,
+  ADDRESS_MESSAGE,
+  AMOUNT_PATTERN,
+  AMOUNT_MESSAGE,
+  AMOUNT_OR_MAX_PATTERN,
+  AMOUNT_OR_MAX_MESSAGE,
+} from "../constants/patterns";
 
 export class StakeDto {
   @ApiProperty({
@@ -15,16 +26,21 @@ export class StakeDto {
     example: "USDC",
   })
   @IsString()
+  @IsIn(SUPPORTED_ASSETS)
   asset: string;
 
   @ApiProperty({ description: "Amount to stake", example: "10" })
   @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
   amount: string;
 
   @ApiProperty({ description: "User wallet address", example: "0x..." })
   @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
   userAddress: string;
+}
 
+export class SmartStakeDto extends StakeDto {
   @ApiProperty({
     description: "Allow automatic token swap if needed",
     default: true,
@@ -45,9 +61,7 @@ export class StakeDto {
   @Min(0.1)
   @Max(5)
   maxSlippage?: number = 1;
-}
 
-export class SmartStakeDto extends StakeDto {
   @ApiProperty({
     description: "Target asset to stake after swap",
     example: "USDC",
@@ -64,12 +78,93 @@ export class SmartStakeDto extends StakeDto {
   })
   @IsOptional()
   @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
   targetAmount?: string;
 }
 
+export class AutoStakeDto {
+  @ApiProperty({
+    description: "Token to stake (will swap if needed)",
+    example: "USDC",
+  })
+  @IsString()
+  @IsIn(SUPPORTED_ASSETS)
+  targetAsset: string;
+
+  @ApiProperty({
+    description: "Amount to stake in target asset",
+    example: "10",
+  })
+  @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
+  targetAmount: string;
+
+  @ApiProperty({
+    description: "Allow automatic token swap",
+    default: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowSwap?: boolean;
+
+  @ApiProperty({
+    description: "Max slippage for swap (1-5%)",
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(5)
+  maxSlippage?: number;
+
+  @ApiProperty({ description: "User wallet address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  userAddress: string;
+}
+
+export class AutoFundStakeDto {
+  @ApiProperty({
+    description: "Token to swap from (e.g., USDC)",
+    example: "USDC",
+  })
+  @IsString()
+  sourceToken: string;
+
+  @ApiProperty({ description: "Token to stake (e.g., GHO)", example: "GHO" })
+  @IsString()
+  targetToken: string;
+
+  @ApiProperty({
+    description: "Amount of source token to use",
+    example: "10",
+  })
+  @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
+  sourceAmount: string;
+
+  @ApiProperty({ description: "User wallet address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  userAddress: string;
+
+  @ApiProperty({
+    description: "Use ETH to cover any shortfall",
+    default: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  useEthForShortfall?: boolean;
+}
+
 export class WithdrawDto {
   @ApiProperty({ description: "Asset symbol to withdraw", example: "USDC" })
   @IsString()
+  @IsIn(SUPPORTED_ASSETS)
   asset: string;
 
   @ApiProperty({
@@ -77,25 +172,30 @@ export class WithdrawDto {
     example: "10",
   })
   @IsString()
+  @Matches(AMOUNT_OR_MAX_PATTERN, { message: AMOUNT_OR_MAX_MESSAGE })
   amount: string;
 
   @ApiProperty({ description: "User wallet address", example: "0x..." })
   @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
   userAddress: string;
 }
 
 export class BorrowDto {
   @ApiProperty({ description: "Asset symbol to borrow", example: "USDT" })
   @IsString()
+  @IsIn(STABLECOIN_ASSETS)
   asset: string;
 
   @ApiProperty({ description: "Amount to borrow", example: "100" })
   @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
   amount: string;
 
   @ApiProperty({
     description: "Interest rate mode (1=stable, 2=variable)",
     example: 2,
+    default: 2,
   })
   @Type(() => Number)
   @IsNumber()
@@ -105,6 +205,7 @@ export class BorrowDto {
 
   @ApiProperty({ description: "User wallet address", example: "0x..." })
   @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
   userAddress: string;
 }
 
@@ -118,11 +219,13 @@ export class RepayDto {
     example: "100",
   })
   @IsString()
+  @Matches(AMOUNT_OR_MAX_PATTERN, { message: AMOUNT_OR_MAX_MESSAGE })
   amount: string;
 
   @ApiProperty({
     description: "Interest rate mode (1=stable, 2=variable)",
     example: 2,
+    default: 2,
   })
   @Type(() => Number)
   @IsNumber()
@@ -132,5 +235,6 @@ export class RepayDto {
 
   @ApiProperty({ description: "User wallet address", example: "0x..." })
   @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
   userAddress: string;
 }
@@ -0,0 +1,49 @@
+import { ApiProperty } from "@nestjs/swagger";
+import type { SwapQuote } from "../../swap/swap.service";
+import type { OneInchQuote } from "../../one-inch/one-inch.service";
+
+export class SwapQuoteDto implements SwapQuote {
+  @ApiProperty({ description: "Token to swap from" })
+  fromToken: string;
+
+  @ApiProperty({ description: "Token to swap to" })
+  toToken: string;
+
+  @ApiProperty({ description: "Input amount, in token units" })
+  amountIn: string;
+
+  @ApiProperty({ description: "Expected output amount, in token units" })
+  amountOut: string;
+
+  @ApiProperty({ description: "Pool fee tier" })
+  fee: number;
+
+  @ApiProperty({ description: "Price impact in percent" })
+  priceImpact: number;
+
+  @ApiProperty({ description: "Route taken by the swap" })
+  route: string;
+}
+
+export class OneInchQuoteDto implements OneInchQuote {
+  @ApiProperty({ description: "Token to swap from" })
+  fromToken: string;
+
+  @ApiProperty({ description: "Token to swap to" })
+  toToken: string;
+
+  @ApiProperty({ description: "Input amount, in token units" })
+  amountIn: string;
+
+  @ApiProperty({ description: "Expected output amount, in token units" })
+  amountOut: string;
+
+  @ApiProperty({ description: "Estimated gas" })
+  estimatedGas: string;
+
+  @ApiProperty({ description: "Protocols along the route", type: [Object] })
+  protocols: any[];
+
+  @ApiProperty({ description: "Swap transaction", required: false })
+  tx?: Record<string, any>;
+}
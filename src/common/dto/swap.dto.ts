@@ -1,6 +1,19 @@
 import { ApiProperty } from "@nestjs/swagger";
-import { IsString, IsNumber, IsOptional, Min, Max } from "class-validator";
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  Min,
+  Max,
+  Matches,
+} from "class-validator";
 import { Type } from "class-transformer";
+import {
+  ADDRESS_PATTERN,
+  ADDRESS_MESSAGE,
+  AMOUNT_PATTERN,
+  AMOUNT_MESSAGE,
+} from "../constants/patterns";
 
 export class SwapDto {
   @ApiProperty({ description: "Token to swap from", example: "USDT" })
@@ -13,10 +26,12 @@ export class SwapDto {
 
   @ApiProperty({ description: "Amount to swap", example: "100" })
   @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
   amount: string;
 
   @ApiProperty({ description: "User wallet address", example: "0x..." })
   @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
   userAddress: string;
 
   @ApiProperty({
@@ -43,5 +58,25 @@ export class QuoteDto {
 
   @ApiProperty({ description: "Amount to swap", example: "100" })
   @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
   amount: string;
 }
+
+export class ExecuteSwapDto extends QuoteDto {
+  @ApiProperty({ description: "User wallet address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  userAddress: string;
+
+  @ApiProperty({
+    description: "Max slippage percentage (default 1%)",
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(5)
+  slippage?: number;
+}
@@ -0,0 +1,127 @@
+import { ApiProperty } from "@nestjs/swagger";
+import type {
+  EIP712TypedData,
+  PreparedTransaction,
+  UnsignedTransaction,
+} from "../../transaction-builder/transaction-builder.service";
+import type { PlannedTransaction } from "../interfaces/execution-options.interface";
+
+export class UnsignedTransactionDto implements UnsignedTransaction {
+  @ApiProperty({ description: "Recipient contract" })
+  to: string;
+
+  @ApiProperty({ description: "Calldata" })
+  data: string;
+
+  @ApiProperty({ description: "Value in wei" })
+  value: string;
+
+  @ApiProperty({ description: "Sender nonce" })
+  nonce: number;
+
+  @ApiProperty({ description: "Gas limit" })
+  gasLimit: string;
+
+  @ApiProperty({ description: "Legacy gas price", required: false })
+  gasPrice?: string;
+
+  @ApiProperty({ description: "EIP-1559 max fee", required: false })
+  maxFeePerGas?: string;
+
+  @ApiProperty({ description: "EIP-1559 priority fee", required: false })
+  maxPriorityFeePerGas?: string;
+
+  @ApiProperty({ description: "Chain id" })
+  chainId: number;
+
+  @ApiProperty({ description: "Transaction type", required: false })
+  type?: number;
+}
+
+export class PlannedTransactionDto
+  extends UnsignedTransactionDto
+  implements PlannedTransaction
+{
+  @ApiProperty({ description: "Sender" })
+  from: string;
+
+  @ApiProperty({
+    description:
+      "False when gas could not be estimated before earlier planned transactions land; a fallback limit is used",
+  })
+  gasEstimated: boolean;
+}
+
+export class PreparedTransactionDto implements PreparedTransaction {
+  @ApiProperty({ type: UnsignedTransactionDto })
+  transaction: UnsignedTransactionDto;
+
+  @ApiProperty({ description: "Estimated gas" })
+  estimatedGas: string;
+
+  @ApiProperty({ description: "Estimated cost in ETH" })
+  estimatedCost: string;
+
+  @ApiProperty({ description: "Unix deadline of the transaction" })
+  deadline: number;
+
+  @ApiProperty({ description: "What the transaction does" })
+  description: string;
+
+  @ApiProperty({ description: "Simulation outcome", required: false })
+  simulation?: Record<string, any>;
+}
+
+export class TypedDataDto implements EIP712TypedData {
+  @ApiProperty({ description: "EIP-712 type definitions" })
+  types: Record<string, Array<{ name: string; type: string }>>;
+
+  @ApiProperty({ description: "EIP-712 domain" })
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+
+  @ApiProperty({ description: "Message to sign" })
+  message: Record<string, any>;
+
+  @ApiProperty({ description: "Primary type of the message" })
+  primaryType: string;
+}
+
+export class SimulationResultDto {
+  @ApiProperty({ description: "Whether the call would succeed" })
+  success: boolean;
+
+  @ApiProperty({ description: "Return data of the call", required: false })
+  result?: string;
+
+  @ApiProperty({ description: "Revert reason", required: false })
+  error?: string;
+}
+
+export class BroadcastResultDto {
+  @ApiProperty({ description: "Whether the transaction was accepted" })
+  success: boolean;
+
+  @ApiProperty({ description: "Transaction hash", required: false })
+  hash?: string;
+
+  @ApiProperty({ description: "Rejection reason", required: false })
+  error?: string;
+
+  @ApiProperty({
+    description: "Set when the transaction was only decoded",
+    required: false,
+  })
+  dryRun?: boolean;
+
+  @ApiProperty({
+    description: "Transaction that would be relayed, for dry runs",
+    type: [PlannedTransactionDto],
+    required: false,
+  })
+  transactions?: PlannedTransactionDto[];
+}
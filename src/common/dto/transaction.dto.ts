@@ -0,0 +1,120 @@
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsIn,
+  IsObject,
+  Min,
+  Max,
+  Matches,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { SUPPORTED_ASSETS } from "../constants/assets";
+import type { UnsignedTransaction } from "../../transaction-builder/transaction-builder.service";
+import {
+  ADDRESS_PATTERN,
+  ADDRESS_MESSAGE,
+  AMOUNT_PATTERN,
+  AMOUNT_MESSAGE,
+  HEX_PATTERN,
+  HEX_MESSAGE,
+} from "../constants/patterns";
+
+export class PrepareSupplyDto {
+  @ApiProperty({ description: "Token to deposit", example: "USDC" })
+  @IsString()
+  @IsIn(SUPPORTED_ASSETS)
+  asset: string;
+
+  @ApiProperty({ description: "Amount", example: "10" })
+  @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
+  amount: string;
+
+  @ApiProperty({ description: "User address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  userAddress: string;
+}
+
+export class PrepareSwapDto {
+  @ApiProperty({ description: "Input token", example: "USDC" })
+  @IsString()
+  tokenIn: string;
+
+  @ApiProperty({ description: "Output token", example: "WETH" })
+  @IsString()
+  tokenOut: string;
+
+  @ApiProperty({
+    description: "Input amount (or amountOut)",
+    example: "100",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
+  amountIn?: string;
+
+  @ApiProperty({
+    description: "Output amount (or amountIn)",
+    example: "0.05",
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(AMOUNT_PATTERN, { message: AMOUNT_MESSAGE })
+  amountOut?: string;
+
+  @ApiProperty({ description: "User address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  userAddress: string;
+
+  @ApiProperty({
+    description: "Maximum slippage %",
+    default: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(5)
+  slippagePercent?: number;
+}
+
+export class PrepareTypedDataDto {
+  @ApiProperty({ description: "Operation type", example: "AAVE_SUPPLY" })
+  @IsString()
+  @IsIn(["AAVE_SUPPLY", "SWAP", "PERMIT"])
+  type: "AAVE_SUPPLY" | "SWAP" | "PERMIT";
+
+  @ApiProperty({ description: "Data to sign" })
+  @IsObject()
+  data: Record<string, any>;
+
+  @ApiProperty({ description: "User address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  userAddress: string;
+}
+
+export class SimulateTransactionDto {
+  @ApiProperty({ description: "Unsigned transaction" })
+  @IsObject()
+  transaction: UnsignedTransaction;
+
+  @ApiProperty({ description: "Sender address", example: "0x..." })
+  @IsString()
+  @Matches(ADDRESS_PATTERN, { message: ADDRESS_MESSAGE })
+  from: string;
+}
+
+export class BroadcastTransactionDto {
+  @ApiProperty({ description: "Signed transaction (hex)", example: "0x..." })
+  @IsString()
+  @Matches(HEX_PATTERN, { message: HEX_MESSAGE })
+  signedTx: string;
+}
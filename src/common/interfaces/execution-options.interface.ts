@@ -0,0 +1,68 @@
+import type { UnsignedTransaction } from "../../transaction-builder/transaction-builder.service";
+import type { AuthPrincipal } from "../../auth/auth.service";
+
+/**
+ * Steps reported while a multi-step operation runs
+ */
+export type ExecutionStep =
+  | "balance_check"
+  | "quote"
+  | "approval"
+  | "swap_sent"
+  | "swap_confirmed"
+  | "supply_sent"
+  | "supply_confirmed"
+  | "repay_sent"
+  | "repay_confirmed";
+
+export interface ExecutionProgress {
+  step: ExecutionStep;
+  message: string;
+  // Hash of the transaction this step sent or confirmed, if any
+  transactionHash?: string;
+}
+
+/**
+ * What a risky step is about to do, shown to the user before it broadcasts
+ */
+export interface ExecutionConfirmation {
+  action: string;
+  // Value moved, undefined when no price is available
+  usdValue?: number;
+  // Projection is missing when the value moved could not be priced
+  healthFactor?: { current: number; projected?: number };
+  slippage?: {
+    maxPercent: number;
+    expectedAmountOut: string;
+    minAmountOut: string;
+  };
+}
+
+/**
+ * A transaction a dry run would have sent, fully populated
+ */
+export interface PlannedTransaction extends UnsignedTransaction {
+  from: string;
+  // False when the estimate failed because it depends on earlier planned
+  // transactions, e.g. a supply waiting for its approval; a fallback gas
+  // limit is used then
+  gasEstimated: boolean;
+}
+
+/**
+ * Per-call options threaded from the caller into the services that execute
+ * on-chain operations
+ */
+export interface ExecutionOptions {
+  onProgress?: (progress: ExecutionProgress) => void;
+  // Checked before each transaction is broadcast; aborting stops the run
+  // with the signal's reason
+  signal?: AbortSignal;
+  // Resolves when the step may go ahead, rejects when the user declines
+  confirm?: (confirmation: ExecutionConfirmation) => Promise<void>;
+  // Set for dry runs: the pipeline runs as usual, but the transactions it
+  // would send are collected here instead of being broadcast
+  dryRun?: PlannedTransaction[];
+  // Authenticated caller; unset when authentication is off
+  caller?: AuthPrincipal;
+}
@@ -4,14 +4,22 @@ export default () => ({
     rpcUrl: process.env.RPC_URL || "https://base-rpc.publicnode.com",
     chainId: parseInt(process.env.CHAIN_ID || "8453", 10), // Base mainnet
     privateKey: process.env.PRIVATE_KEY || "",
-    // autoExecute: process.env.AUTO_EXECUTE === "true",
-    autoExecute: true,
+    // simulate, prepare-only or execute; the older AUTO_EXECUTE=false
+    // still selects simulate
+    executionMode:
+      process.env.EXECUTION_MODE ||
+      (process.env.AUTO_EXECUTE === "false" ? "simulate" : "execute"),
   },
   contracts: {
-    aavePool: "0xA238Dd80C259a72e81d7e4664a9801593F98d1c5",
-    poolDataProvider: "0x2d8A3C5677189723C4cB8873CfC9C8976FDF38Ac",
+    // The market's Pool, PoolDataProvider, AaveOracle, ACLManager and
+    // PoolConfigurator are resolved from it at startup
+    poolAddressesProvider:
+      process.env.AAVE_POOL_ADDRESSES_PROVIDER ||
+      "0xe20fCBdBfFC4Dd138cE8b2E6FBb6CB49777ad64D", // Aave V3 Base market
     uniswapRouter: "0x2626664c2603336E57B271c5C0b26F421741e481",
     uniswapQuoter: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a",
+    // Same address on every chain it is deployed to
+    multicall3: "0xcA11bde05977b3631167028862bE2a173976CA11",
   },
   tokens: {
     // Stablecoins
@@ -41,6 +49,90 @@ export default () => ({
     feeTiers: [100, 500, 3000, 10000], // 0.01%, 0.05%, 0.3%, 1%
     maxSlippage: 1, // 1%
   },
+  mcp: {
+    // "readonly" hides every tool that signs or broadcasts transactions
+    profile: process.env.MCP_PROFILE || "full",
+    // How often subscribed account resources are re-read (ms)
+    subscriptionPollInterval: parseInt(
+      process.env.MCP_SUBSCRIPTION_POLL_INTERVAL || "15000",
+      10,
+    ),
+    // Relative change (0.01 = 1%) that triggers a resource update
+    subscriptionDelta: parseFloat(process.env.MCP_SUBSCRIPTION_DELTA || "0.01"),
+    // Sessions without an open stream are ended after this long without a
+    // request (ms); 0 keeps them until the client ends them
+    sessionIdleTimeout: parseInt(
+      process.env.MCP_SESSION_IDLE_TIMEOUT || "1800000",
+      10,
+    ),
+    // How long outcomes are kept for idempotency keys, and how long a call
+    // still running may hold its key (ms)
+    idempotencyTtl: parseInt(process.env.MCP_IDEMPOTENCY_TTL || "86400000", 10),
+    // Per API key (or session) limits; 0 turns a limit off
+    rateLimit: {
+      // Read-only tool calls, resource reads, prompts and completions per
+      // window
+      read: parseInt(process.env.MCP_RATE_LIMIT_READ || "120", 10),
+      // State-changing tool calls, dry runs included, per window
+      execute: parseInt(process.env.MCP_RATE_LIMIT_EXECUTE || "10", 10),
+      // Window the limits above are counted over (ms)
+      window: parseInt(process.env.MCP_RATE_LIMIT_WINDOW || "60000", 10),
+      // Calls that may broadcast, per UTC day; replays are not counted
+      dailyExecutions: parseInt(
+        process.env.MCP_DAILY_EXECUTION_QUOTA || "100",
+        10,
+      ),
+    },
+    // When borrow, withdraw and swap steps need user confirmation
+    confirmation: {
+      // Steps moving at least this many USD
+      minUsdValue: parseFloat(process.env.MCP_CONFIRM_MIN_USD || "100"),
+      // Steps leaving the projected health factor below this
+      minHealthFactor: parseFloat(
+        process.env.MCP_CONFIRM_MIN_HEALTH_FACTOR || "2",
+      ),
+      // Swaps allowing more slippage than this (percent)
+      maxSlippage: parseFloat(process.env.MCP_CONFIRM_MAX_SLIPPAGE || "1"),
+      // How long to wait for the user's answer (ms)
+      timeout: parseInt(process.env.MCP_CONFIRM_TIMEOUT || "120000", 10),
+    },
+  },
+  auth: {
+    // name:secret:scope,scope entries separated by ";"; empty disables auth
+    apiKeys: process.env.MCP_API_KEYS || "",
+    oauth: {
+      // Authorization server whose access tokens are accepted; unset
+      // disables OAuth
+      issuer: process.env.OAUTH_ISSUER || "",
+      // Public URL of the /mcp endpoint, e.g. https://mcp.example.com/mcp
+      resource: process.env.MCP_RESOURCE_URL || "",
+      // Expected "aud" claim; defaults to the resource URL
+      audience: process.env.OAUTH_AUDIENCE || "",
+    },
+  },
+  cors: {
+    // Comma-separated allowed origins; no cross-origin access when empty
+    origins: (process.env.CORS_ORIGINS || "")
+      .split(",")
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+  },
+  cache: {
+    // Block-scoped reads (reserve data, prices, positions) are reused for
+    // one block; the block number is re-read at most this often (ms)
+    blockTime: parseInt(process.env.CACHE_BLOCK_TIME || "2000", 10),
+    // Reserve list and configuration (ms)
+    reserveConfigTtl: parseInt(
+      process.env.CACHE_RESERVE_CONFIG_TTL || "3600000",
+      10,
+    ),
+    // Token decimals and symbols (ms)
+    tokenTtl: parseInt(process.env.CACHE_TOKEN_TTL || "86400000", 10),
+  },
+  audit: {
+    // Append-only JSONL file receiving one entry per tool call
+    path: process.env.AUDIT_LOG_PATH || "data/audit.jsonl",
+  },
   logging: {
     level: process.env.LOG_LEVEL || "info",
   },
@@ -1,12 +1,35 @@
 import { NestFactory } from "@nestjs/core";
 import { ValidationPipe } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import type { NestExpressApplication } from "@nestjs/platform-express";
 import { AppModule } from "./app.module";
+import { mcpParseErrorHandler } from "./mcp/mcp-parse-error.handler";
+import { McpLogger, logLevelsFrom } from "./mcp/mcp-logger";
+import { McpLoggingService } from "./mcp/mcp-logging.service";
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const logger = new McpLogger();
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    logger,
+  });
 
-  // Enable CORS
-  app.enableCors();
+  // Apply the configured level and let MCP sessions receive log records
+  logger.setLogLevels(
+    logLevelsFrom(app.get(ConfigService).get<string>("logging.level", "info")),
+  );
+  logger.bridgeTo(app.get(McpLoggingService));
+
+  // Only the configured origins get cross-origin access; browsers on them
+  // need to read the session header of Streamable HTTP
+  app.enableCors({
+    origin: app.get(ConfigService).get<string[]>("cors.origins", []),
+    exposedHeaders: ["Mcp-Session-Id", "WWW-Authenticate"],
+  });
+
+  // Register the JSON parser up front so malformed MCP bodies can be
+  // answered with a JSON-RPC parse error
+  app.useBodyParser("json");
+  app.use("/mcp", mcpParseErrorHandler);
 
   // Global validation pipe
   app.useGlobalPipes(
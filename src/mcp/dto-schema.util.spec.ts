@@ -0,0 +1,101 @@
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from "class-validator";
+import { dtoToJsonSchema } from "./dto-schema.util";
+
+class TransferDto {
+  @ApiProperty({ description: "Asset symbol" })
+  @IsString()
+  @IsIn(["USDC", "WETH"])
+  asset: string;
+
+  @ApiProperty({ description: "Amount to send" })
+  @IsString()
+  @Matches(/^\d+(\.\d+)?$/)
+  amount: string;
+
+  @ApiProperty({ default: 1, required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(5)
+  maxSlippage?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+class LegDto {
+  @ApiProperty()
+  hash: string;
+}
+
+class PlanDto {
+  @ApiProperty({ type: LegDto })
+  first: LegDto;
+
+  @ApiProperty({ type: [LegDto] })
+  legs: LegDto[];
+
+  @ApiProperty({ type: String, isArray: true, required: false })
+  warnings?: string[];
+}
+
+describe("dtoToJsonSchema", () => {
+  it("describes an empty object without a DTO", () => {
+    expect(dtoToJsonSchema()).toEqual({ type: "object", properties: {} });
+  });
+
+  it("maps validation constraints and documentation to the schema", () => {
+    expect(dtoToJsonSchema(TransferDto)).toEqual({
+      type: "object",
+      properties: {
+        asset: {
+          type: "string",
+          description: "Asset symbol",
+          enum: ["USDC", "WETH"],
+        },
+        amount: {
+          type: "string",
+          description: "Amount to send",
+          pattern: "^\\d+(\\.\\d+)?$",
+        },
+        maxSlippage: {
+          type: "number",
+          minimum: 0.1,
+          maximum: 5,
+          default: 1,
+        },
+        dryRun: { type: "boolean" },
+      },
+      required: ["asset", "amount"],
+    });
+  });
+
+  it("expands nested DTOs and arrays inline", () => {
+    const leg = {
+      type: "object",
+      properties: { hash: { type: "string" } },
+      required: ["hash"],
+    };
+
+    expect(dtoToJsonSchema(PlanDto)).toEqual({
+      type: "object",
+      properties: {
+        first: leg,
+        legs: { type: "array", items: leg },
+        warnings: { type: "array", items: { type: "string" } },
+      },
+      required: ["first", "legs"],
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { getMetadataStorage, ValidationTypes } from "class-validator";
+import type { MetadataStorage } from "class-validator";
+import type { Type } from "@nestjs/common";
+
+type ValidationMetadata = ReturnType<
+  MetadataStorage["getTargetValidationMetadatas"]
+>[number];
+
+// Metadata keys written by @ApiProperty from @nestjs/swagger
+const API_MODEL_PROPERTIES_ARRAY = "swagger/apiModelPropertiesArray";
+const API_MODEL_PROPERTIES = "swagger/apiModelProperties";
+
+export interface JsonSchema {
+  type: string;
+  properties: Record<string, any>;
+  required?: string[];
+}
+
+/**
+ * Build the JSON schema of a DTO from its @ApiProperty documentation and
+ * class-validator constraints
+ *
+ * Used for both tool inputs and tool results; nested DTOs and arrays of DTOs
+ * are expanded inline.
+ */
+export function dtoToJsonSchema(dto?: Type<unknown>): JsonSchema {
+  const schema: JsonSchema = { type: "object", properties: {} };
+  if (!dto) {
+    return schema;
+  }
+
+  const validations = getMetadataStorage().getTargetValidationMetadatas(
+    dto,
+    "",
+    true,
+    false,
+  );
+  const documented: string[] = (
+    Reflect.getMetadata(API_MODEL_PROPERTIES_ARRAY, dto.prototype) ?? []
+  ).map((key: string) => key.replace(/^:/, ""));
+  const propertyNames = [
+    ...new Set([...documented, ...validations.map((v) => v.propertyName)]),
+  ];
+
+  const required: string[] = [];
+
+  for (const name of propertyNames) {
+    const doc =
+      Reflect.getMetadata(API_MODEL_PROPERTIES, dto.prototype, name) ?? {};
+    const rules = validations.filter((v) => v.propertyName === name);
+
+    schema.properties[name] = propertySchema(doc, rules);
+
+    const optional =
+      doc.required === false ||
+      rules.some((v) => v.type === ValidationTypes.CONDITIONAL_VALIDATION);
+    if (!optional) {
+      required.push(name);
+    }
+  }
+
+  if (required.length > 0) {
+    schema.required = required;
+  }
+
+  return schema;
+}
+
+function propertySchema(
+  doc: Record<string, any>,
+  rules: ValidationMetadata[],
+): Record<string, any> {
+  // @ApiProperty({ type: [Item] }) or @ApiProperty({ type: Item, isArray: true })
+  const itemType = Array.isArray(doc.type)
+    ? doc.type[0]
+    : doc.isArray
+      ? doc.type
+      : undefined;
+
+  const property: Record<string, any> = itemType
+    ? { type: "array", items: typeSchema(itemType) }
+    : isDto(doc.type)
+      ? dtoToJsonSchema(doc.type)
+      : { type: jsonType(doc, rules) };
+
+  if (doc.description) {
+    property.description = doc.description;
+  }
+
+  if (doc.enum) {
+    property.enum = doc.enum;
+  }
+
+  for (const rule of rules) {
+    switch (rule.name) {
+      case "isIn":
+        property.enum = rule.constraints[0];
+        break;
+      case "min":
+        property.minimum = rule.constraints[0];
+        break;
+      case "max":
+        property.maximum = rule.constraints[0];
+        break;
+      case "matches":
+        property.pattern = (rule.constraints[0] as RegExp).source;
+        break;
+    }
+  }
+
+  if (doc.default !== undefined) {
+    property.default = doc.default;
+  }
+
+  return property;
+}
+
+function typeSchema(type: unknown): Record<string, any> {
+  return isDto(type) ? dtoToJsonSchema(type) : { type: jsonType({ type }, []) };
+}
+
+function isDto(type: unknown): type is Type<unknown> {
+  return (
+    typeof type === "function" &&
+    ![String, Number, Boolean, Object, Array, Date].includes(type as any)
+  );
+}
+
+function jsonType(
+  doc: Record<string, any>,
+  rules: ValidationMetadata[],
+): string {
+  const names = rules.map((v) => v.name);
+
+  if (doc.type === Number || names.includes("isNumber")) return "number";
+  if (doc.type === Boolean || names.includes("isBoolean")) return "boolean";
+  if (doc.type === Array || names.includes("isArray")) return "array";
+  if (doc.type === String || names.includes("isString")) return "string";
+  return "object";
+}
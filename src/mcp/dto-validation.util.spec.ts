@@ -0,0 +1,86 @@
+import "reflect-metadata";
+import { Type } from "class-transformer";
+import {
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { validateArguments } from "./dto-validation.util";
+
+class LimitsDto {
+  @IsNumber()
+  @Min(1)
+  maxGas: number;
+}
+
+class TransferDto {
+  @IsString()
+  @IsIn(["USDC", "WETH"])
+  asset: string;
+
+  @IsNumber()
+  amount: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LimitsDto)
+  limits?: LimitsDto;
+}
+
+describe("validateArguments", () => {
+  it.each([null, [], "USDC"])("rejects %p as arguments", async (args) => {
+    await expect(validateArguments(TransferDto, args)).resolves.toEqual({
+      args: {},
+      errors: [{ field: "arguments", errors: ["arguments must be an object"] }],
+    });
+  });
+
+  it("passes arguments through when the tool has no DTO", async () => {
+    const args = { anything: 1 };
+
+    await expect(validateArguments(undefined, args)).resolves.toEqual({
+      args,
+      errors: [],
+    });
+  });
+
+  it("converts values to the declared types and strips unknown ones", async () => {
+    const { args, errors } = await validateArguments(TransferDto, {
+      asset: "USDC",
+      amount: "2.5",
+      admin: true,
+    });
+
+    expect(errors).toEqual([]);
+    expect(args).toBeInstanceOf(TransferDto);
+    expect({ ...args }).toEqual({ asset: "USDC", amount: 2.5 });
+  });
+
+  it("reports every failing field, nested ones by path", async () => {
+    const { errors } = await validateArguments(TransferDto, {
+      asset: "DOGE",
+      amount: "a lot",
+      limits: { maxGas: 0 },
+    });
+
+    expect(errors).toEqual([
+      {
+        field: "asset",
+        errors: ["asset must be one of the following values: USDC, WETH"],
+      },
+      {
+        field: "amount",
+        errors: [
+          "amount must be a number conforming to the specified constraints",
+        ],
+      },
+      {
+        field: "limits.maxGas",
+        errors: ["maxGas must not be less than 1"],
+      },
+    ]);
+  });
+});
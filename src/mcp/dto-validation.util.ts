@@ -0,0 +1,56 @@
+import type { Type } from "@nestjs/common";
+import { plainToInstance } from "class-transformer";
+import { validate } from "class-validator";
+import type { ValidationError } from "class-validator";
+
+export interface ArgumentError {
+  field: string;
+  errors: string[];
+}
+
+export interface ParsedArguments {
+  args: Record<string, any>;
+  errors: ArgumentError[];
+}
+
+/**
+ * Check request arguments against a DTO
+ *
+ * Mirrors the global ValidationPipe: values are converted to the declared
+ * types and unknown properties are stripped.
+ */
+export async function validateArguments(
+  dto: Type<unknown> | undefined,
+  args: unknown,
+): Promise<ParsedArguments> {
+  if (typeof args !== "object" || args === null || Array.isArray(args)) {
+    return {
+      args: {},
+      errors: [{ field: "arguments", errors: ["arguments must be an object"] }],
+    };
+  }
+
+  if (!dto) {
+    return { args: args as Record<string, any>, errors: [] };
+  }
+
+  const instance = plainToInstance(dto, args, {
+    enableImplicitConversion: true,
+  }) as Record<string, any>;
+  const failures = await validate(instance, { whitelist: true });
+
+  return { args: instance, errors: flattenErrors(failures) };
+}
+
+function flattenErrors(
+  failures: ValidationError[],
+  prefix = "",
+): ArgumentError[] {
+  return failures.flatMap((failure) => {
+    const field = prefix + failure.property;
+    const own = failure.constraints
+      ? [{ field, errors: Object.values(failure.constraints) }]
+      : [];
+    return [...own, ...flattenErrors(failure.children ?? [], `${field}.`)];
+  });
+}
@@ -0,0 +1,172 @@
+import { Injectable, Logger, BadRequestException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { AaveService } from "../aave/aave.service";
+import { SUPPORTED_ASSETS } from "../common/constants/assets";
+import { AMOUNT_OR_MAX_PATTERN } from "../common/constants/patterns";
+import { McpToolRegistry } from "./mcp-tool-registry.service";
+import { McpPromptRegistry } from "./mcp-prompt-registry.service";
+import { McpResourceRegistry } from "./mcp-resource-registry.service";
+import type { McpSession } from "./mcp-session.service";
+
+// Spec limit on values returned by one completion
+const MAX_COMPLETION_VALUES = 100;
+const MAX_KNOWN_ADDRESSES = 20;
+
+const ADDRESS_SEARCH = /0x[0-9a-fA-F]{40}/g;
+const ADDRESS_ARGUMENT = /^(address|from)$|Address$/;
+const TOKEN_ARGUMENT = /^(asset|symbol|token|tokenIn|tokenOut)$|(Token|Asset)$/;
+const FEE_ARGUMENT = /^fee/i;
+
+export type McpCompletionRef =
+  | { type: "ref/prompt"; name: string }
+  | { type: "ref/resource"; uri: string }
+  | { type: "ref/tool"; name: string };
+
+export interface McpCompletion {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+/**
+ * Suggestions for prompt, resource template and tool arguments
+ */
+@Injectable()
+export class McpCompletionService {
+  private readonly logger = new Logger(McpCompletionService.name);
+
+  constructor(
+    private readonly aaveService: AaveService,
+    private readonly configService: ConfigService,
+    private readonly toolRegistry: McpToolRegistry,
+    private readonly promptRegistry: McpPromptRegistry,
+    private readonly resourceRegistry: McpResourceRegistry,
+  ) {}
+
+  /**
+   * Remember the wallet addresses found in request arguments or a URI so
+   * they can be offered back later in the session
+   */
+  rememberAddresses(session: McpSession | undefined, source: unknown) {
+    if (!session) {
+      return;
+    }
+
+    const text =
+      typeof source === "string"
+        ? source
+        : Object.values(source ?? {})
+            .filter((value) => typeof value === "string")
+            .join(" ");
+
+    for (const address of text.match(ADDRESS_SEARCH) ?? []) {
+      const known = (session.knownAddresses ?? []).filter(
+        (entry) => entry.toLowerCase() !== address.toLowerCase(),
+      );
+      session.knownAddresses = [address, ...known].slice(
+        0,
+        MAX_KNOWN_ADDRESSES,
+      );
+    }
+  }
+
+  async complete(
+    ref: McpCompletionRef,
+    argument: { name: string; value: string },
+    session?: McpSession,
+  ): Promise<McpCompletion> {
+    this.assertKnownRef(ref);
+
+    const candidates = await this.candidates(ref, argument.name, session);
+    const prefix = argument.value.toLowerCase();
+    const matches = candidates.filter((candidate) =>
+      candidate.toLowerCase().startsWith(prefix),
+    );
+
+    return {
+      values: matches.slice(0, MAX_COMPLETION_VALUES),
+      total: matches.length,
+      hasMore: matches.length > MAX_COMPLETION_VALUES,
+    };
+  }
+
+  private assertKnownRef(ref: McpCompletionRef) {
+    switch (ref.type) {
+      case "ref/prompt":
+        if (!this.promptRegistry.has(ref.name)) {
+          throw new BadRequestException(`Unknown prompt: ${ref.name}`);
+        }
+        return;
+
+      case "ref/tool": {
+        const tool = this.toolRegistry.get(ref.name);
+        if (!tool || !this.toolRegistry.isAvailable(tool)) {
+          throw new BadRequestException(`Unknown tool: ${ref.name}`);
+        }
+        return;
+      }
+
+      case "ref/resource": {
+        const known = [
+          ...this.resourceRegistry.list().map((resource) => resource.uri),
+          ...this.resourceRegistry
+            .listTemplates()
+            .map((template) => template.uriTemplate),
+        ];
+        if (!known.includes(ref.uri)) {
+          throw new BadRequestException(`Unknown resource: ${ref.uri}`);
+        }
+        return;
+      }
+
+      default:
+        throw new BadRequestException(
+          `Unsupported reference type: ${JSON.stringify((ref as { type: unknown }).type)}`,
+        );
+    }
+  }
+
+  private async candidates(
+    ref: McpCompletionRef,
+    name: string,
+    session?: McpSession,
+  ): Promise<string[]> {
+    if (ADDRESS_ARGUMENT.test(name)) {
+      return session?.knownAddresses ?? [];
+    }
+
+    if (TOKEN_ARGUMENT.test(name)) {
+      return this.reserveSymbols();
+    }
+
+    if (FEE_ARGUMENT.test(name)) {
+      return (
+        this.configService.get<number[]>("uniswap.feeTiers") ?? [
+          100, 500, 3000, 10000,
+        ]
+      ).map(String);
+    }
+
+    // Withdraw and repay amounts accept "max" for the whole position
+    if (
+      ref.type === "ref/tool" &&
+      this.toolRegistry.get(ref.name)?.inputSchema.properties[name]?.pattern ===
+        AMOUNT_OR_MAX_PATTERN.source
+    ) {
+      return ["max"];
+    }
+
+    return [];
+  }
+
+  private async reserveSymbols(): Promise<string[]> {
+    try {
+      return await this.aaveService.getReserveSymbols();
+    } catch (error) {
+      this.logger.warn(
+        `Failed to load reserve symbols, using defaults: ${error.message}`,
+      );
+      return [...SUPPORTED_ASSETS];
+    }
+  }
+}
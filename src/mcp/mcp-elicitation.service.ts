@@ -0,0 +1,137 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { McpSessionService } from "./mcp-session.service";
+import { ToolErrorCode, ToolExecutionError } from "./tool-error";
+import type { McpRequestContext } from "./mcp.service";
+import type {
+  ExecutionConfirmation,
+  ExecutionOptions,
+} from "../common/interfaces/execution-options.interface";
+
+const CONFIRMATION_SCHEMA = {
+  type: "object",
+  properties: {
+    confirm: {
+      type: "boolean",
+      title: "Execute",
+      description: "Broadcast this transaction with the server wallet",
+    },
+  },
+  required: ["confirm"],
+};
+
+/**
+ * Asks the user, through the client's elicitation support, to confirm risky
+ * steps before they are broadcast
+ */
+@Injectable()
+export class McpElicitationService {
+  private readonly logger = new Logger(McpElicitationService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly sessionService: McpSessionService,
+  ) {}
+
+  /**
+   * Confirmation hook for a tool call, or undefined when the client cannot
+   * be asked
+   *
+   * A declined, cancelled or unanswered confirmation aborts the call with a
+   * CANCELLED error.
+   */
+  confirmer(
+    context: McpRequestContext,
+    abort: (reason: Error) => void,
+  ): ExecutionOptions["confirm"] {
+    const session = context.session;
+    if (!session?.clientCapabilities?.elicitation) {
+      return undefined;
+    }
+
+    return async (confirmation) => {
+      if (!this.requiresConfirmation(confirmation)) {
+        return;
+      }
+
+      let accepted = false;
+      try {
+        const result = await this.sessionService.request(
+          session,
+          "elicitation/create",
+          {
+            message: this.formatMessage(confirmation),
+            requestedSchema: CONFIRMATION_SCHEMA,
+          },
+          this.configService.get<number>("mcp.confirmation.timeout", 120000),
+          context.notify ?? session.send,
+        );
+        accepted = result?.action === "accept" && result.content?.confirm;
+      } catch (error) {
+        this.logger.warn(`Confirmation request failed: ${error.message}`);
+      }
+
+      if (!accepted) {
+        const reason = new ToolExecutionError(
+          ToolErrorCode.CANCELLED,
+          `Not confirmed by user: ${confirmation.action}`,
+        );
+        abort(reason);
+        throw reason;
+      }
+    };
+  }
+
+  private requiresConfirmation({
+    usdValue,
+    healthFactor,
+    slippage,
+  }: ExecutionConfirmation): boolean {
+    const thresholds = this.configService.get("mcp.confirmation");
+
+    // Without a price the size of the step is unknown
+    if (usdValue === undefined || usdValue >= thresholds.minUsdValue) {
+      return true;
+    }
+    if (
+      healthFactor &&
+      (healthFactor.projected === undefined ||
+        healthFactor.projected < thresholds.minHealthFactor)
+    ) {
+      return true;
+    }
+    return !!slippage && slippage.maxPercent > thresholds.maxSlippage;
+  }
+
+  private formatMessage({
+    action,
+    usdValue,
+    healthFactor,
+    slippage,
+  }: ExecutionConfirmation): string {
+    const lines = [
+      `Confirm: ${action}`,
+      `Value: ${usdValue === undefined ? "unknown" : `~$${usdValue.toFixed(2)}`}`,
+    ];
+
+    if (healthFactor) {
+      lines.push(
+        `Health factor: ${formatHealthFactor(healthFactor.current)} -> ${formatHealthFactor(healthFactor.projected)}`,
+      );
+    }
+    if (slippage) {
+      lines.push(
+        `Slippage: up to ${slippage.maxPercent}% (expected ${slippage.expectedAmountOut}, minimum ${slippage.minAmountOut})`,
+      );
+    }
+
+    return lines.join("\n");
+  }
+}
+
+function formatHealthFactor(value?: number): string {
+  if (value === undefined) {
+    return "unknown";
+  }
+  return Number.isFinite(value) ? value.toFixed(2) : "no debt";
+}
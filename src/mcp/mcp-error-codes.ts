@@ -0,0 +1,8 @@
+// Server-defined JSON-RPC error codes, from the -32000 to -32099 range the
+// spec reserves for implementations
+
+// A well-formed call the caller's scopes do not allow
+export const FORBIDDEN_ERROR_CODE = -32003;
+
+// The client is over its rate limits or daily execution quota
+export const RATE_LIMITED_ERROR_CODE = -32029;
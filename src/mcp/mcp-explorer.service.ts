@@ -0,0 +1,50 @@
+import { Injectable } from "@nestjs/common";
+import { DiscoveryService, MetadataScanner, Reflector } from "@nestjs/core";
+
+export interface DiscoveredHandler<T> {
+  options: T;
+  handler: (...args: any[]) => Promise<unknown>;
+}
+
+@Injectable()
+export class McpExplorer {
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+  ) {}
+
+  /**
+   * Find provider methods carrying the given MCP decorator metadata, bound
+   * to their instance
+   */
+  explore<T>(metadataKey: string): DiscoveredHandler<T>[] {
+    const handlers: DiscoveredHandler<T>[] = [];
+
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { instance } = wrapper;
+      if (!instance || typeof instance !== "object") {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance);
+      for (const methodName of this.metadataScanner.getAllMethodNames(
+        prototype,
+      )) {
+        const options = this.reflector.get<T>(
+          metadataKey,
+          prototype[methodName],
+        );
+        if (options) {
+          handlers.push({
+            options,
+            handler: (...args) =>
+              Promise.resolve(instance[methodName](...args)),
+          });
+        }
+      }
+    }
+
+    return handlers;
+  }
+}
@@ -0,0 +1,101 @@
+import { ConflictException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { McpIdempotencyService } from "./mcp-idempotency.service";
+
+const TTL = 60000;
+
+describe("McpIdempotencyService", () => {
+  let service: McpIdempotencyService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    service = new McpIdempotencyService(
+      new ConfigService({ mcp: { idempotencyTtl: TTL } }),
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("replays the first outcome instead of executing again", async () => {
+    const execute = jest.fn().mockResolvedValue({ hash: "0x1" });
+
+    const first = await service.run("key", { amount: "1" }, execute);
+    const second = await service.run("key", { amount: "1" }, execute);
+
+    expect(first).toEqual({ value: { hash: "0x1" }, replayed: false });
+    expect(second).toEqual({ value: { hash: "0x1" }, replayed: true });
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("makes a retry wait for the call still running", async () => {
+    let resolve!: (value: string) => void;
+    const execute = jest.fn(
+      () => new Promise<string>((done) => (resolve = done)),
+    );
+
+    const first = service.run("key", {}, execute);
+    const retry = service.run("key", {}, execute);
+    resolve("done");
+
+    await expect(first).resolves.toEqual({ value: "done", replayed: false });
+    await expect(retry).resolves.toEqual({ value: "done", replayed: true });
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses a key reused with different arguments", async () => {
+    await service.run("key", { amount: "1" }, () => Promise.resolve("done"));
+
+    await expect(
+      service.run("key", { amount: "2" }, () => Promise.resolve("again")),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it("runs a retry again after the first call failed", async () => {
+    const execute = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("reverted"))
+      .mockResolvedValueOnce("done");
+
+    await expect(service.run("key", {}, execute)).rejects.toThrow("reverted");
+    await expect(service.run("key", {}, execute)).resolves.toEqual({
+      value: "done",
+      replayed: false,
+    });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not store outcomes keep rejects", async () => {
+    const execute = jest.fn().mockResolvedValue({ error: "no gas" });
+    const keep = (value: { error?: string }) => !value.error;
+
+    await service.run("key", {}, execute, keep);
+    const retry = await service.run("key", {}, execute, keep);
+
+    expect(retry.replayed).toBe(false);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("frees the key of a call still pending after the TTL", async () => {
+    const hung = jest.fn(() => new Promise<string>(() => {}));
+    void service.run("key", {}, hung);
+
+    jest.advanceTimersByTime(TTL);
+    const retry = await service.run("key", {}, () => Promise.resolve("done"));
+
+    expect(retry).toEqual({ value: "done", replayed: false });
+  });
+
+  it("forgets settled outcomes after the TTL", async () => {
+    const execute = jest.fn().mockResolvedValue("done");
+    await service.run("key", {}, execute);
+
+    jest.advanceTimersByTime(TTL - 1);
+    expect((await service.run("key", {}, execute)).replayed).toBe(true);
+
+    jest.advanceTimersByTime(1);
+    expect((await service.run("key", {}, execute)).replayed).toBe(false);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { ConflictException, Injectable } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+export const IDEMPOTENCY_KEY_ARGUMENT = "idempotencyKey";
+
+// Added to the input schema of every tool that is not read-only
+export const IDEMPOTENCY_KEY_SCHEMA = {
+  type: "string",
+  minLength: 1,
+  maxLength: 255,
+  description:
+    "Optional client-chosen key. Repeating a call with the same key returns the first call's result instead of executing again",
+};
+
+interface IdempotentCall {
+  // Arguments of the first call, serialized
+  fingerprint: string;
+  outcome: Promise<unknown>;
+  // Counted from the start while pending, so a hung call frees its key,
+  // and again from when the call settles
+  expiresAt: number;
+}
+
+export function isIdempotencyKey(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    value.length >= IDEMPOTENCY_KEY_SCHEMA.minLength &&
+    value.length <= IDEMPOTENCY_KEY_SCHEMA.maxLength
+  );
+}
+
+/**
+ * Remembers the outcome of state-changing tool calls by idempotency key
+ *
+ * A retry arriving while the first call is still running waits for it; one
+ * arriving later, within the TTL, gets the stored outcome. Either way
+ * nothing is executed twice. Outcomes `keep` rejects, like thrown errors,
+ * are not stored, so a later retry runs again.
+ */
+@Injectable()
+export class McpIdempotencyService {
+  private readonly calls = new Map<string, IdempotentCall>();
+  private readonly ttl: number;
+
+  constructor(configService: ConfigService) {
+    this.ttl = configService.get<number>("mcp.idempotencyTtl", 86400000);
+  }
+
+  async run<T>(
+    key: string,
+    args: unknown,
+    execute: () => Promise<T>,
+    keep: (value: T) => boolean = () => true,
+  ): Promise<{ value: T; replayed: boolean }> {
+    this.evictExpired();
+
+    const fingerprint = JSON.stringify(args);
+    const previous = this.calls.get(key);
+    if (previous) {
+      if (previous.fingerprint !== fingerprint) {
+        throw new ConflictException(
+          "idempotencyKey was already used with different arguments",
+        );
+      }
+      return { value: (await previous.outcome) as T, replayed: true };
+    }
+
+    const call: IdempotentCall = {
+      fingerprint,
+      outcome: execute(),
+      expiresAt: Date.now() + this.ttl,
+    };
+    this.calls.set(key, call);
+
+    try {
+      const value = (await call.outcome) as T;
+      if (keep(value)) {
+        call.expiresAt = Date.now() + this.ttl;
+      } else {
+        this.forget(key, call);
+      }
+      return { value, replayed: false };
+    } catch (error) {
+      // Nothing to replay; a retry may run again
+      this.forget(key, call);
+      throw error;
+    }
+  }
+
+  // The entry may have expired and the key been reused meanwhile
+  private forget(key: string, call: IdempotentCall) {
+    if (this.calls.get(key) === call) {
+      this.calls.delete(key);
+    }
+  }
+
+  private evictExpired() {
+    const now = Date.now();
+    for (const [key, call] of this.calls) {
+      if (call.expiresAt <= now) {
+        this.calls.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { ConsoleLogger } from "@nestjs/common";
+import type { LogLevel } from "@nestjs/common";
+import type { McpLoggingService } from "./mcp-logging.service";
+
+// Nest levels, least severe first
+const NEST_LOG_LEVELS: LogLevel[] = [
+  "verbose",
+  "debug",
+  "log",
+  "warn",
+  "error",
+  "fatal",
+];
+
+const LEVEL_ALIASES: Record<string, LogLevel> = {
+  info: "log",
+  warning: "warn",
+  critical: "fatal",
+};
+
+/**
+ * Nest levels enabled by a configured minimum level such as "info"
+ */
+export function logLevelsFrom(level: string): LogLevel[] {
+  const name = LEVEL_ALIASES[level] ?? (level as LogLevel);
+  const index = NEST_LOG_LEVELS.indexOf(name);
+  return index === -1 ? NEST_LOG_LEVELS.slice(2) : NEST_LOG_LEVELS.slice(index);
+}
+
+/**
+ * Console logger that also hands every record to the MCP logging bridge,
+ * independently of which levels are printed locally
+ */
+export class McpLogger extends ConsoleLogger {
+  private loggingService?: McpLoggingService;
+
+  bridgeTo(loggingService: McpLoggingService) {
+    this.loggingService = loggingService;
+  }
+
+  log(message: any, ...optionalParams: any[]) {
+    this.forward("log", message, optionalParams);
+    super.log(message, ...optionalParams);
+  }
+
+  error(message: any, ...optionalParams: any[]) {
+    this.forward("error", message, optionalParams);
+    super.error(message, ...optionalParams);
+  }
+
+  warn(message: any, ...optionalParams: any[]) {
+    this.forward("warn", message, optionalParams);
+    super.warn(message, ...optionalParams);
+  }
+
+  debug(message: any, ...optionalParams: any[]) {
+    this.forward("debug", message, optionalParams);
+    super.debug(message, ...optionalParams);
+  }
+
+  verbose(message: any, ...optionalParams: any[]) {
+    this.forward("verbose", message, optionalParams);
+    super.verbose(message, ...optionalParams);
+  }
+
+  fatal(message: any, ...optionalParams: any[]) {
+    this.forward("fatal", message, optionalParams);
+    super.fatal(message, ...optionalParams);
+  }
+
+  private forward(level: LogLevel, message: any, optionalParams: any[]) {
+    // Nest's Logger passes its context as the last parameter
+    const last = optionalParams[optionalParams.length - 1];
+    this.loggingService?.forward(
+      level,
+      typeof last === "string" ? last : this.context,
+      message,
+    );
+  }
+}
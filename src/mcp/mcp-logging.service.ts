@@ -0,0 +1,80 @@
+import { Injectable } from "@nestjs/common";
+import type { LogLevel } from "@nestjs/common";
+import { AsyncLocalStorage } from "async_hooks";
+import type { McpRequestContext } from "./mcp.service";
+
+// RFC 5424 severities used by MCP, least severe first
+export const MCP_LOG_LEVELS = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+] as const;
+
+export type McpLogLevel = (typeof MCP_LOG_LEVELS)[number];
+
+const NEST_TO_MCP_LEVEL: Record<LogLevel, McpLogLevel> = {
+  verbose: "debug",
+  debug: "debug",
+  log: "info",
+  warn: "warning",
+  error: "error",
+  fatal: "critical",
+};
+
+export function isMcpLogLevel(value: unknown): value is McpLogLevel {
+  return MCP_LOG_LEVELS.includes(value as McpLogLevel);
+}
+
+/**
+ * Forwards Nest log records to the MCP session whose request produced them
+ *
+ * Requests are handled inside run(), so any record logged while serving one,
+ * from whichever service, can be traced back to its session.
+ */
+@Injectable()
+export class McpLoggingService {
+  private readonly requests = new AsyncLocalStorage<McpRequestContext>();
+  private forwarding = false;
+
+  run<T>(context: McpRequestContext, handler: () => T): T {
+    return this.requests.run(context, handler);
+  }
+
+  forward(level: LogLevel, logger: string | undefined, message: unknown) {
+    const context = this.requests.getStore();
+    const threshold = context?.session?.logLevel;
+    const send = context?.notify ?? context?.session?.send;
+
+    // Sending may itself log; never forward from inside a forward
+    if (!threshold || !send || this.forwarding) {
+      return;
+    }
+
+    const mcpLevel = NEST_TO_MCP_LEVEL[level];
+    if (MCP_LOG_LEVELS.indexOf(mcpLevel) < MCP_LOG_LEVELS.indexOf(threshold)) {
+      return;
+    }
+
+    this.forwarding = true;
+    try {
+      send({
+        jsonrpc: "2.0",
+        method: "notifications/message",
+        params: {
+          level: mcpLevel,
+          ...(logger && { logger }),
+          data: message instanceof Error ? message.message : message,
+        },
+      });
+    } catch {
+      // The stream went away; the record is still printed locally
+    } finally {
+      this.forwarding = false;
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextFunction, Request, Response } from "express";
+
+/**
+ * Express error handler answering unparseable MCP bodies with a JSON-RPC
+ * parse error instead of the default HTML 400 page
+ */
+export function mcpParseErrorHandler(
+  error: any,
+  request: Request,
+  response: Response,
+  next: NextFunction,
+) {
+  if (error?.type !== "entity.parse.failed") {
+    return next(error);
+  }
+
+  response.status(400).json({
+    jsonrpc: "2.0",
+    id: null,
+    error: {
+      code: -32700,
+      message: "Parse error",
+      data: error.message,
+    },
+  });
+}
@@ -0,0 +1,104 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { MCP_PROMPT_METADATA } from "./prompt.decorator";
+import type { PromptOptions } from "./prompt.decorator";
+import { dtoToJsonSchema } from "./dto-schema.util";
+import { validateArguments } from "./dto-validation.util";
+import type { ParsedArguments } from "./dto-validation.util";
+import { McpExplorer } from "./mcp-explorer.service";
+
+export interface McpPrompt {
+  name: string;
+  description: string;
+  arguments: Array<{
+    name: string;
+    description?: string;
+    required: boolean;
+  }>;
+}
+
+export interface McpPromptResult {
+  description: string;
+  messages: Array<{
+    role: "user" | "assistant";
+    content: { type: "text"; text: string };
+  }>;
+}
+
+interface RegisteredPrompt extends McpPrompt {
+  options: PromptOptions;
+  handler: (args: Record<string, any>) => Promise<unknown>;
+}
+
+@Injectable()
+export class McpPromptRegistry implements OnModuleInit {
+  private readonly logger = new Logger(McpPromptRegistry.name);
+  private readonly prompts = new Map<string, RegisteredPrompt>();
+
+  constructor(private readonly explorer: McpExplorer) {}
+
+  onModuleInit() {
+    for (const { options, handler } of this.explorer.explore<PromptOptions>(
+      MCP_PROMPT_METADATA,
+    )) {
+      this.register(options, handler);
+    }
+
+    this.logger.log(`Registered ${this.prompts.size} MCP prompts`);
+  }
+
+  list(): McpPrompt[] {
+    return [...this.prompts.values()].map(
+      ({ name, description, arguments: args }) => ({
+        name,
+        description,
+        arguments: args,
+      }),
+    );
+  }
+
+  has(name: string): boolean {
+    return this.prompts.has(name);
+  }
+
+  parseArguments(name: string, args: unknown): Promise<ParsedArguments> {
+    return validateArguments(this.prompts.get(name)?.options.input, args);
+  }
+
+  /**
+   * Render a prompt with already validated arguments
+   */
+  async render(
+    name: string,
+    args: Record<string, any>,
+  ): Promise<McpPromptResult> {
+    const prompt = this.prompts.get(name)!;
+    const text = String(await prompt.handler(args));
+
+    return {
+      description: prompt.description,
+      messages: [{ role: "user", content: { type: "text", text } }],
+    };
+  }
+
+  private register(
+    options: PromptOptions,
+    handler: RegisteredPrompt["handler"],
+  ) {
+    if (this.prompts.has(options.name)) {
+      throw new Error(`MCP prompt ${options.name} is registered twice`);
+    }
+
+    const schema = dtoToJsonSchema(options.input);
+    this.prompts.set(options.name, {
+      name: options.name,
+      description: options.description,
+      arguments: Object.entries(schema.properties).map(([name, property]) => ({
+        name,
+        description: property.description,
+        required: schema.required?.includes(name) ?? false,
+      })),
+      options,
+      handler,
+    });
+  }
+}
@@ -0,0 +1,108 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { McpRateLimitService } from "./mcp-rate-limit.service";
+
+function createService(rateLimit: Record<string, number>) {
+  return new McpRateLimitService(
+    new ConfigService({
+      mcp: {
+        rateLimit: {
+          read: 2,
+          execute: 2,
+          window: 60000,
+          dailyExecutions: 0,
+          ...rateLimit,
+        },
+      },
+    }),
+  );
+}
+
+describe("McpRateLimitService", () => {
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2026-01-31T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("consume", () => {
+    it("allows a burst up to the limit, then says when to retry", () => {
+      const service = createService({ read: 2 });
+
+      expect(service.consume("key", "read")).toBeUndefined();
+      expect(service.consume("key", "read")).toBeUndefined();
+      expect(service.consume("key", "read")).toEqual({
+        limit: "read",
+        allowed: 2,
+        window: 60,
+        retryAfter: 30,
+      });
+    });
+
+    it("refills evenly over the window", () => {
+      const service = createService({ read: 2 });
+      service.consume("key", "read");
+      service.consume("key", "read");
+
+      jest.advanceTimersByTime(15000);
+      expect(service.consume("key", "read")?.retryAfter).toBe(15);
+
+      jest.advanceTimersByTime(15000);
+      expect(service.consume("key", "read")).toBeUndefined();
+      expect(service.consume("key", "read")).toBeDefined();
+    });
+
+    it("keeps separate buckets per client and kind of call", () => {
+      const service = createService({ read: 1, execute: 1 });
+
+      expect(service.consume("a", "read")).toBeUndefined();
+      expect(service.consume("a", "read")).toBeDefined();
+      expect(service.consume("a", "execute")).toBeUndefined();
+      expect(service.consume("b", "read")).toBeUndefined();
+    });
+
+    it("never limits when the limit is 0", () => {
+      const service = createService({ read: 0 });
+
+      for (let i = 0; i < 1000; i++) {
+        expect(service.consume("key", "read")).toBeUndefined();
+      }
+    });
+  });
+
+  describe("consumeExecution", () => {
+    it("refuses executions over the quota until the next UTC day", () => {
+      const service = createService({ dailyExecutions: 2 });
+
+      expect(service.consumeExecution("key")).toBeUndefined();
+      expect(service.consumeExecution("key")).toBeUndefined();
+      expect(service.consumeExecution("key")).toEqual({
+        limit: "daily",
+        allowed: 2,
+        retryAfter: 12 * 3600,
+      });
+      expect(service.consumeExecution("other")).toBeUndefined();
+
+      jest.setSystemTime(new Date("2026-01-31T23:59:59Z"));
+      expect(service.consumeExecution("key")?.retryAfter).toBe(1);
+
+      jest.setSystemTime(new Date("2026-02-01T00:00:00Z"));
+      expect(service.consumeExecution("key")).toBeUndefined();
+    });
+
+    it("never limits when the quota is 0", () => {
+      const service = createService({ dailyExecutions: 0 });
+
+      for (let i = 0; i < 1000; i++) {
+        expect(service.consumeExecution("key")).toBeUndefined();
+      }
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+const DAY_MS = 86400000;
+
+// Read-only tools and execute tools are limited separately
+export type RateLimitBucket = "read" | "execute";
+
+export interface RateLimitDenial {
+  // Which limit was hit; "daily" is the execution quota
+  limit: RateLimitBucket | "daily";
+  // Calls allowed per window, or executions per day
+  allowed: number;
+  // Length of the window in seconds, for the call limits
+  window?: number;
+  // Seconds until the call may be retried
+  retryAfter: number;
+}
+
+/**
+ * Thrown when an execution is refused by the daily quota after the call
+ * got past its other checks
+ */
+export class ExecutionQuotaError extends Error {
+  constructor(readonly denial: RateLimitDenial) {
+    super(`Daily execution quota of ${denial.allowed} reached`);
+  }
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface DailyCount {
+  // UTC day the count is for, e.g. 2026-01-31
+  day: string;
+  count: number;
+}
+
+/**
+ * Per-client call rate limits and daily execution quotas
+ *
+ * Each client (API key, or session when auth is off) gets a token bucket
+ * per kind of tool, refilled evenly over the window, so short bursts up to
+ * the limit are fine but a steady loop is slowed down. Limits of 0 are off.
+ */
+@Injectable()
+export class McpRateLimitService {
+  private readonly logger = new Logger(McpRateLimitService.name);
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly executions = new Map<string, DailyCount>();
+  private readonly limits: Record<RateLimitBucket, number>;
+  private readonly window: number;
+  private readonly dailyExecutions: number;
+
+  constructor(configService: ConfigService) {
+    this.limits = {
+      read: configService.get<number>("mcp.rateLimit.read", 120),
+      execute: configService.get<number>("mcp.rateLimit.execute", 10),
+    };
+    this.window = configService.get<number>("mcp.rateLimit.window", 60000);
+    this.dailyExecutions = configService.get<number>(
+      "mcp.rateLimit.dailyExecutions",
+      100,
+    );
+  }
+
+  /**
+   * Take a call from the client's bucket
+   *
+   * Nothing is taken when the call is refused; the denial says which limit
+   * was hit and when to retry.
+   */
+  consume(
+    client: string,
+    bucket: RateLimitBucket,
+  ): RateLimitDenial | undefined {
+    const now = Date.now();
+    this.evictIdle(now);
+
+    const allowed = this.limits[bucket];
+    if (allowed <= 0) {
+      return undefined;
+    }
+
+    const tokenBucket = this.refill(`${bucket}:${client}`, allowed, now);
+    if (tokenBucket.tokens < 1) {
+      const msPerToken = this.window / allowed;
+      return this.deny(client, {
+        limit: bucket,
+        allowed,
+        window: this.window / 1000,
+        retryAfter: Math.ceil(((1 - tokenBucket.tokens) * msPerToken) / 1000),
+      });
+    }
+
+    tokenBucket.tokens -= 1;
+    return undefined;
+  }
+
+  /**
+   * Take one execution from the client's daily quota, right before a call
+   * that may broadcast runs
+   */
+  consumeExecution(client: string): RateLimitDenial | undefined {
+    if (this.dailyExecutions <= 0) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const day = new Date(now).toISOString().slice(0, 10);
+    let daily = this.executions.get(client);
+    if (daily?.day !== day) {
+      daily = { day, count: 0 };
+      this.executions.set(client, daily);
+    }
+    if (daily.count >= this.dailyExecutions) {
+      return this.deny(client, {
+        limit: "daily",
+        allowed: this.dailyExecutions,
+        retryAfter: Math.ceil((DAY_MS - (now % DAY_MS)) / 1000),
+      });
+    }
+
+    daily.count += 1;
+    return undefined;
+  }
+
+  private refill(key: string, allowed: number, now: number): TokenBucket {
+    const bucket = this.buckets.get(key) ?? { tokens: allowed, updatedAt: now };
+    bucket.tokens = Math.min(
+      allowed,
+      bucket.tokens + ((now - bucket.updatedAt) * allowed) / this.window,
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  private deny(client: string, denial: RateLimitDenial): RateLimitDenial {
+    this.logger.warn(
+      `Rate limited ${client}: ${denial.limit} limit of ${denial.allowed}, retry after ${denial.retryAfter}s`,
+    );
+    return denial;
+  }
+
+  // A bucket untouched for a whole window is full again, and counts from
+  // earlier days no longer apply
+  private evictIdle(now: number) {
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= this.window) {
+        this.buckets.delete(key);
+      }
+    }
+    const today = new Date(now).toISOString().slice(0, 10);
+    for (const [client, daily] of this.executions) {
+      if (daily.day !== today) {
+        this.executions.delete(client);
+      }
+    }
+  }
+}
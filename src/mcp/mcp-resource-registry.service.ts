@@ -0,0 +1,148 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { MCP_RESOURCE_METADATA } from "./resource.decorator";
+import type { ResourceOptions } from "./resource.decorator";
+import { McpExplorer } from "./mcp-explorer.service";
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+interface RegisteredResource {
+  options: ResourceOptions;
+  // Set for templated URIs only
+  pattern?: RegExp;
+  variables: string[];
+  handler: (params: Record<string, string>, uri: string) => Promise<unknown>;
+}
+
+const DEFAULT_MIME_TYPE = "application/json";
+
+@Injectable()
+export class McpResourceRegistry implements OnModuleInit {
+  private readonly logger = new Logger(McpResourceRegistry.name);
+  private readonly resources: RegisteredResource[] = [];
+
+  constructor(private readonly explorer: McpExplorer) {}
+
+  onModuleInit() {
+    for (const { options, handler } of this.explorer.explore<ResourceOptions>(
+      MCP_RESOURCE_METADATA,
+    )) {
+      this.register(options, handler);
+    }
+
+    this.logger.log(`Registered ${this.resources.length} MCP resources`);
+  }
+
+  list(): McpResource[] {
+    return this.resources
+      .filter((resource) => !resource.pattern)
+      .map(({ options }) => ({
+        uri: options.uri,
+        name: options.name,
+        description: options.description,
+        mimeType: options.mimeType ?? DEFAULT_MIME_TYPE,
+      }));
+  }
+
+  listTemplates(): McpResourceTemplate[] {
+    return this.resources
+      .filter((resource) => resource.pattern)
+      .map(({ options }) => ({
+        uriTemplate: options.uri,
+        name: options.name,
+        description: options.description,
+        mimeType: options.mimeType ?? DEFAULT_MIME_TYPE,
+      }));
+  }
+
+  /**
+   * Resolve a URI against the registered resources and read it
+   *
+   * Returns undefined when no resource matches the URI, including when its
+   * percent-encoding is malformed.
+   */
+  async read(uri: string): Promise<McpResourceContents | undefined> {
+    for (const resource of this.resources) {
+      const params = this.match(resource, uri);
+      if (!params) {
+        continue;
+      }
+
+      const data = await resource.handler(params, uri);
+      return {
+        uri,
+        mimeType: resource.options.mimeType ?? DEFAULT_MIME_TYPE,
+        text: JSON.stringify(data, null, 2),
+      };
+    }
+
+    return undefined;
+  }
+
+  private match(
+    resource: RegisteredResource,
+    uri: string,
+  ): Record<string, string> | undefined {
+    if (!resource.pattern) {
+      return resource.options.uri === uri ? {} : undefined;
+    }
+
+    const match = resource.pattern.exec(uri);
+    if (!match) {
+      return undefined;
+    }
+
+    try {
+      return Object.fromEntries(
+        resource.variables.map((name, i) => [
+          name,
+          decodeURIComponent(match[i + 1]),
+        ]),
+      );
+    } catch (error) {
+      // A malformed escape such as %E0 names no resource
+      if (error instanceof URIError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private register(
+    options: ResourceOptions,
+    handler: RegisteredResource["handler"],
+  ) {
+    const variables = [...options.uri.matchAll(/\{(\w+)\}/g)].map((m) => m[1]);
+
+    // Each {variable} matches a single path segment
+    const pattern = variables.length
+      ? new RegExp(
+          "^" +
+            options.uri
+              .split(/\{\w+\}/)
+              .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+              .join("([^/]+)") +
+            "$",
+        )
+      : undefined;
+
+    this.resources.push({ options, pattern, variables, handler });
+  }
+}
@@ -0,0 +1,206 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { randomUUID } from "crypto";
+import type { McpMessage, McpResponse } from "./mcp.service";
+import type { McpLogLevel } from "./mcp-logging.service";
+import type { AuthPrincipal } from "../auth/auth.service";
+
+export type McpTransport = "sse" | "streamable-http" | "stdio";
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface McpSession {
+  id: string;
+  transport: McpTransport;
+  createdAt: Date;
+  // Last request from the client, or when its stream closed
+  lastSeenAt: Date;
+  protocolVersion?: string;
+  clientCapabilities?: Record<string, any>;
+  // Key that opened the session; only it may use the session
+  principal?: AuthPrincipal;
+  // Minimum level of log records forwarded; nothing is sent until set
+  logLevel?: McpLogLevel;
+  // Wallet addresses seen in this session's requests, most recent first
+  knownAddresses?: string[];
+  // Stream for server-to-client messages; unset while no stream is open
+  send?: (message: McpMessage | McpMessage[]) => void;
+  close?: () => void;
+  // Server-initiated requests awaiting the client's response, by id
+  pendingRequests?: Map<string | number, PendingRequest>;
+}
+
+// How often idle sessions are looked for, at most (ms)
+const MAX_SWEEP_INTERVAL = 60000;
+
+@Injectable()
+export class McpSessionService implements OnModuleDestroy {
+  private readonly logger = new Logger(McpSessionService.name);
+  private readonly sessions = new Map<string, McpSession>();
+  private readonly closeListeners: ((session: McpSession) => void)[] = [];
+  private readonly idleTimeout: number;
+  private readonly sweepTimer?: NodeJS.Timeout;
+  private requestCounter = 0;
+
+  constructor(configService: ConfigService) {
+    this.idleTimeout = configService.get<number>(
+      "mcp.sessionIdleTimeout",
+      1800000,
+    );
+    if (this.idleTimeout > 0) {
+      this.sweepTimer = setInterval(
+        () => this.evictIdle(),
+        Math.min(this.idleTimeout, MAX_SWEEP_INTERVAL),
+      );
+      this.sweepTimer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Register a new session, optionally bound to an open stream
+   */
+  create(
+    transport: McpTransport,
+    send?: (message: McpMessage | McpMessage[]) => void,
+  ): McpSession {
+    const session: McpSession = {
+      id: randomUUID(),
+      transport,
+      createdAt: new Date(),
+      lastSeenAt: new Date(),
+      send,
+    };
+
+    this.sessions.set(session.id, session);
+    this.logger.log(`Session ${session.id} opened (${transport})`);
+    return session;
+  }
+
+  get(sessionId: string): McpSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Record activity from the client, postponing idle eviction
+   */
+  touch(session: McpSession) {
+    session.lastSeenAt = new Date();
+  }
+
+  /**
+   * Run the listener for every session that is removed, whether closed by
+   * the client or evicted
+   */
+  onClose(listener: (session: McpSession) => void) {
+    this.closeListeners.push(listener);
+  }
+
+  remove(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(sessionId);
+    for (const pending of session.pendingRequests?.values() ?? []) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error("Session closed"));
+    }
+    session.close?.();
+    for (const listener of this.closeListeners) {
+      listener(session);
+    }
+    this.logger.log(`Session ${sessionId} closed`);
+    return true;
+  }
+
+  /**
+   * Push a server notification to a session's stream
+   */
+  notify(sessionId: string, method: string, params?: any): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session?.send) {
+      return false;
+    }
+
+    session.send({ jsonrpc: "2.0", method, params });
+    return true;
+  }
+
+  /**
+   * Send a request to the client and wait for its response
+   *
+   * The request goes out over `send` when given, e.g. the stream of the call
+   * that needs the answer, otherwise over the session's stream.
+   */
+  request(
+    session: McpSession,
+    method: string,
+    params: any,
+    timeoutMs: number,
+    send = session.send,
+  ): Promise<any> {
+    if (!send) {
+      return Promise.reject(
+        new Error(`Session ${session.id} has no open stream`),
+      );
+    }
+
+    const id = `server-${++this.requestCounter}`;
+    const pendingRequests = (session.pendingRequests ??= new Map());
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingRequests.delete(id);
+        reject(new Error(`No response to ${method} within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      pendingRequests.set(id, { resolve, reject, timer });
+      send({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  /**
+   * Settle the pending request a client response answers
+   *
+   * Returns false when no request with that id is waiting.
+   */
+  resolveResponse(session: McpSession, response: McpResponse): boolean {
+    const pending =
+      response.id !== null
+        ? session.pendingRequests?.get(response.id)
+        : undefined;
+    if (!pending) {
+      return false;
+    }
+
+    session.pendingRequests!.delete(response.id!);
+    clearTimeout(pending.timer);
+    if (response.error) {
+      pending.reject(new Error(response.error.message));
+    } else {
+      pending.resolve(response.result);
+    }
+    return true;
+  }
+
+  // Clients that go away without ending their session would otherwise leak
+  // it; a session with an open stream is still connected and is kept
+  private evictIdle() {
+    const cutoff = Date.now() - this.idleTimeout;
+    for (const session of [...this.sessions.values()]) {
+      if (!session.send && session.lastSeenAt.getTime() <= cutoff) {
+        this.logger.log(`Session ${session.id} idle, evicting`);
+        this.remove(session.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { McpSubscriptionService } from "./mcp-subscription.service";
+import type { AaveService } from "../aave/aave.service";
+import type { BlockchainService } from "../blockchain/blockchain.service";
+import type { McpSessionService } from "./mcp-session.service";
+
+const POLL_INTERVAL = 1000;
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+
+const accountUri = (address: string) => `aave://base/users/${address}/account`;
+
+describe("McpSubscriptionService", () => {
+  let healthFactors: Record<string, string | Error>;
+  let block: number;
+  let notify: jest.Mock;
+  let service: McpSubscriptionService;
+
+  // Lets the next poll see a new block and the given health factors
+  async function nextBlock(values: Record<string, string | Error> = {}) {
+    Object.assign(healthFactors, values);
+    block += 1;
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL);
+  }
+
+  function notifiedUris(): string[] {
+    return notify.mock.calls.map(
+      ([, , params]: [string, string, { uri: string }]) => params.uri,
+    );
+  }
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    healthFactors = { [ALICE]: "2.0", [BOB]: "2.0" };
+    block = 1;
+    notify = jest.fn();
+
+    const aaveService = {
+      getUserAccountData: (address: string) => {
+        const healthFactor = healthFactors[address];
+        if (healthFactor instanceof Error) {
+          return Promise.reject(healthFactor);
+        }
+        return Promise.resolve({
+          totalCollateral: "1000",
+          totalDebt: "400",
+          healthFactor,
+        });
+      },
+    };
+    const blockchainService = {
+      getCurrentBlock: () => Promise.resolve(block),
+    };
+    const sessionService = {
+      onClose: jest.fn(),
+      get: (id: string) => ({ id }),
+      notify,
+    };
+
+    service = new McpSubscriptionService(
+      new ConfigService({
+        mcp: {
+          subscriptionPollInterval: POLL_INTERVAL,
+          subscriptionDelta: 0.01,
+        },
+      }),
+      aaveService as unknown as AaveService,
+      blockchainService as unknown as BlockchainService,
+      sessionService as unknown as McpSessionService,
+    );
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it("notifies subscribers when a value moves beyond the delta", async () => {
+    service.subscribe("session", accountUri(ALICE));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(notify).not.toHaveBeenCalled();
+
+    await nextBlock({ [ALICE]: "1.9" });
+
+    expect(notify).toHaveBeenCalledWith(
+      "session",
+      "notifications/resources/updated",
+      { uri: accountUri(ALICE) },
+    );
+  });
+
+  it("adds up small moves since the last notification", async () => {
+    service.subscribe("session", accountUri(ALICE));
+    await jest.advanceTimersByTimeAsync(0);
+
+    await nextBlock({ [ALICE]: "2.015" });
+    await nextBlock({ [ALICE]: "2.03" });
+    expect(notify).toHaveBeenCalledTimes(1);
+
+    // 2.04 is within the delta of 2.03, the last notified value
+    await nextBlock({ [ALICE]: "2.04" });
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it("notifies when debt appears on an account that had none", async () => {
+    healthFactors[ALICE] = "MAX";
+    service.subscribe("session", accountUri(ALICE));
+    await jest.advanceTimersByTimeAsync(0);
+
+    await nextBlock({ [ALICE]: "5.0" });
+
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it("re-reads resources only on new blocks", async () => {
+    service.subscribe("session", accountUri(ALICE));
+    await jest.advanceTimersByTimeAsync(0);
+
+    healthFactors[ALICE] = "1.0";
+    await jest.advanceTimersByTimeAsync(POLL_INTERVAL);
+    expect(notify).not.toHaveBeenCalled();
+
+    await nextBlock();
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps refreshing other resources when one fails", async () => {
+    service.subscribe("session", accountUri(ALICE));
+    service.subscribe("session", accountUri(BOB));
+    await jest.advanceTimersByTimeAsync(0);
+
+    await nextBlock({ [ALICE]: new Error("RPC down"), [BOB]: "1.5" });
+    expect(notifiedUris()).toEqual([accountUri(BOB)]);
+
+    await nextBlock({ [ALICE]: "1.5" });
+    expect(notifiedUris()).toEqual([accountUri(BOB), accountUri(ALICE)]);
+  });
+
+  it("stops notifying a session that unsubscribed", async () => {
+    service.subscribe("session", accountUri(ALICE));
+    await jest.advanceTimersByTimeAsync(0);
+    service.unsubscribe("session", accountUri(ALICE));
+
+    await nextBlock({ [ALICE]: "1.0" });
+
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
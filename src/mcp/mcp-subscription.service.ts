@@ -0,0 +1,242 @@
+import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { AaveService } from "../aave/aave.service";
+import { BlockchainService } from "../blockchain/blockchain.service";
+import { McpSessionService } from "./mcp-session.service";
+import type {
+  UserAccountData,
+  UserPosition,
+} from "../common/dto/aave-result.dto";
+
+// Account and position resources are the ones worth watching
+const SUBSCRIBABLE_URI =
+  /^aave:\/\/base\/users\/(0x[0-9a-fA-F]{40})\/(account|positions)$/;
+
+type Snapshot = Record<string, number>;
+
+interface Subscription {
+  address: string;
+  kind: "account" | "positions";
+  sessions: Set<string>;
+  snapshot?: Snapshot;
+}
+
+@Injectable()
+export class McpSubscriptionService implements OnModuleDestroy {
+  private readonly logger = new Logger(McpSubscriptionService.name);
+  private readonly subscriptions = new Map<string, Subscription>();
+  private timer?: NodeJS.Timeout;
+  private lastBlock?: number;
+  private polling = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly aaveService: AaveService,
+    private readonly blockchainService: BlockchainService,
+    private readonly sessionService: McpSessionService,
+  ) {
+    sessionService.onClose((session) => this.unsubscribeAll(session.id));
+  }
+
+  isSubscribable(uri: string): boolean {
+    return SUBSCRIBABLE_URI.test(uri);
+  }
+
+  subscribe(sessionId: string, uri: string) {
+    const [, address, kind] = SUBSCRIBABLE_URI.exec(uri) ?? [];
+    if (!address) {
+      throw new Error(`Resource ${uri} does not support subscriptions`);
+    }
+
+    let subscription = this.subscriptions.get(uri);
+    if (!subscription) {
+      subscription = {
+        address,
+        kind: kind as Subscription["kind"],
+        sessions: new Set(),
+      };
+      this.subscriptions.set(uri, subscription);
+    }
+
+    subscription.sessions.add(sessionId);
+    this.logger.log(`Session ${sessionId} subscribed to ${uri}`);
+    this.start();
+  }
+
+  unsubscribe(sessionId: string, uri: string) {
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription?.sessions.delete(sessionId)) {
+      return;
+    }
+
+    this.logger.log(`Session ${sessionId} unsubscribed from ${uri}`);
+    if (subscription.sessions.size === 0) {
+      this.subscriptions.delete(uri);
+    }
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Drop every subscription of a session that has gone away
+   */
+  unsubscribeAll(sessionId: string) {
+    for (const [uri, subscription] of this.subscriptions) {
+      if (subscription.sessions.has(sessionId)) {
+        this.unsubscribe(sessionId, uri);
+      }
+    }
+  }
+
+  onModuleDestroy() {
+    this.stop();
+  }
+
+  private start() {
+    if (this.timer) {
+      return;
+    }
+
+    const interval = this.configService.get<number>(
+      "mcp.subscriptionPollInterval",
+    )!;
+    this.timer = setInterval(() => void this.poll(), interval);
+    void this.poll();
+  }
+
+  private stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.lastBlock = undefined;
+  }
+
+  /**
+   * Re-read every watched resource once per new block and notify the
+   * subscribers of those that moved beyond the configured delta
+   */
+  private async poll() {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const block = await this.blockchainService.getCurrentBlock();
+      if (block === this.lastBlock) {
+        return;
+      }
+      this.lastBlock = block;
+
+      for (const [uri, subscription] of this.subscriptions) {
+        this.pruneClosedSessions(uri, subscription);
+        if (subscription.sessions.size === 0) {
+          continue;
+        }
+
+        // One unreadable resource must not hold back the others
+        try {
+          await this.refresh(uri, subscription);
+        } catch (error) {
+          this.logger.warn(
+            `Could not refresh ${uri}: ${(error as Error).message}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Subscription poll failed: ${(error as Error).message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Notify the subscribers when the resource moved beyond the delta since
+   * the last notification, so that slow drifts add up to one eventually
+   */
+  private async refresh(uri: string, subscription: Subscription) {
+    const snapshot = await this.takeSnapshot(subscription);
+    if (!subscription.snapshot) {
+      subscription.snapshot = snapshot;
+      return;
+    }
+    if (!this.hasChanged(subscription.snapshot, snapshot)) {
+      return;
+    }
+
+    subscription.snapshot = snapshot;
+    for (const sessionId of subscription.sessions) {
+      this.sessionService.notify(sessionId, "notifications/resources/updated", {
+        uri,
+      });
+    }
+  }
+
+  private pruneClosedSessions(uri: string, subscription: Subscription) {
+    for (const sessionId of subscription.sessions) {
+      if (!this.sessionService.get(sessionId)) {
+        subscription.sessions.delete(sessionId);
+      }
+    }
+    if (subscription.sessions.size === 0) {
+      this.subscriptions.delete(uri);
+    }
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  private async takeSnapshot(subscription: Subscription): Promise<Snapshot> {
+    if (subscription.kind === "account") {
+      return accountSnapshot(
+        await this.aaveService.getUserAccountData(subscription.address),
+      );
+    }
+    return positionsSnapshot(
+      await this.aaveService.getUserPositions(subscription.address),
+    );
+  }
+
+  private hasChanged(previous: Snapshot, current: Snapshot): boolean {
+    const delta = this.configService.get<number>("mcp.subscriptionDelta")!;
+    const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+
+    for (const key of keys) {
+      const before = previous[key] ?? 0;
+      const after = current[key] ?? 0;
+      if (before === after) {
+        continue;
+      }
+      // Infinite health factor (no debt) to finite or back
+      if (!Number.isFinite(before) || !Number.isFinite(after)) {
+        return true;
+      }
+      const base = Math.max(Math.abs(before), Math.abs(after));
+      if (Math.abs(after - before) / base > delta) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
+
+function accountSnapshot(account: UserAccountData): Snapshot {
+  return {
+    healthFactor:
+      account.healthFactor === "MAX"
+        ? Infinity
+        : parseFloat(account.healthFactor),
+    totalDebt: parseFloat(account.totalDebt),
+    totalCollateral: parseFloat(account.totalCollateral),
+  };
+}
+
+function positionsSnapshot(positions: UserPosition[]): Snapshot {
+  const snapshot: Snapshot = {};
+  for (const position of positions) {
+    snapshot[`${position.asset}.supplied`] = parseFloat(position.supplied);
+    snapshot[`${position.asset}.borrowed`] = parseFloat(position.borrowed);
+  }
+  return snapshot;
+}
@@ -0,0 +1,144 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import type { Type } from "@nestjs/common";
+import { MCP_TOOL_METADATA } from "./tool.decorator";
+import type { ToolOptions } from "./tool.decorator";
+import { dtoToJsonSchema } from "./dto-schema.util";
+import { validateArguments } from "./dto-validation.util";
+import type { ParsedArguments } from "./dto-validation.util";
+import { McpExplorer } from "./mcp-explorer.service";
+import {
+  IDEMPOTENCY_KEY_ARGUMENT,
+  IDEMPOTENCY_KEY_SCHEMA,
+} from "./mcp-idempotency.service";
+import type { McpTool } from "./mcp.service";
+import type { ExecutionOptions } from "../common/interfaces/execution-options.interface";
+import type { AuthScope } from "../auth/auth.service";
+import type { ExecutionMode } from "../blockchain/blockchain.service";
+
+export const DRY_RUN_ARGUMENT = "dryRun";
+
+// Added to the input schema of every tool that is not read-only
+const DRY_RUN_SCHEMA = {
+  type: "boolean",
+  description:
+    "Run the whole operation, including quotes, approvals and gas estimates, but return the transactions it would send instead of broadcasting them",
+};
+
+export interface RegisteredTool extends McpTool {
+  scope: AuthScope;
+  input?: Type<unknown>;
+  handler: (args: any, options?: ExecutionOptions) => Promise<unknown>;
+}
+
+@Injectable()
+export class McpToolRegistry implements OnModuleInit {
+  private readonly logger = new Logger(McpToolRegistry.name);
+  private readonly tools = new Map<string, RegisteredTool>();
+
+  readonly profile: string;
+  private readonly executionMode: ExecutionMode;
+
+  constructor(
+    private readonly explorer: McpExplorer,
+    configService: ConfigService,
+  ) {
+    this.profile = configService.get<string>("mcp.profile", "full");
+    this.executionMode = configService.get<ExecutionMode>(
+      "blockchain.executionMode",
+      "execute",
+    );
+  }
+
+  onModuleInit() {
+    for (const { options, handler } of this.explorer.explore<ToolOptions>(
+      MCP_TOOL_METADATA,
+    )) {
+      this.register(options, handler);
+    }
+
+    this.logger.log(
+      `Registered ${this.tools.size} MCP tools (${this.profile} profile)`,
+    );
+  }
+
+  /**
+   * Tools offered under the configured profile, limited to the given scopes
+   * when there are any
+   */
+  list(scopes?: readonly AuthScope[]): McpTool[] {
+    return [...this.tools.values()]
+      .filter((tool) => this.isAvailable(tool))
+      .filter((tool) => !scopes || scopes.includes(tool.scope))
+      .map(({ name, description, inputSchema, outputSchema, annotations }) => ({
+        name,
+        description,
+        inputSchema,
+        ...(outputSchema && { outputSchema }),
+        annotations,
+      }));
+  }
+
+  isAvailable(tool: RegisteredTool): boolean {
+    return this.unavailableReason(tool) === undefined;
+  }
+
+  /**
+   * Why a tool is not served, if it is not: the readonly profile only serves
+   * tools that never sign or broadcast, and prepare-only mode drops the ones
+   * that use the server wallet
+   */
+  unavailableReason(tool: RegisteredTool): string | undefined {
+    if (this.profile === "readonly" && !tool.annotations.readOnlyHint) {
+      return `the ${this.profile} profile`;
+    }
+    if (this.executionMode === "prepare-only" && tool.scope === "execute") {
+      return `${this.executionMode} execution mode`;
+    }
+    return undefined;
+  }
+
+  get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Check arguments against the tool's input DTO
+   */
+  parseArguments(
+    tool: RegisteredTool,
+    args: unknown,
+  ): Promise<ParsedArguments> {
+    return validateArguments(tool.input, args);
+  }
+
+  private register(
+    options: ToolOptions,
+    handler: (args: any, options?: ExecutionOptions) => Promise<unknown>,
+  ) {
+    if (this.tools.has(options.name)) {
+      throw new Error(`MCP tool ${options.name} is registered twice`);
+    }
+
+    const inputSchema = dtoToJsonSchema(options.input);
+    // State-changing tools accept an idempotency key for safe retries and
+    // can be dry-run
+    if (!options.annotations.readOnlyHint) {
+      inputSchema.properties[IDEMPOTENCY_KEY_ARGUMENT] = IDEMPOTENCY_KEY_SCHEMA;
+      inputSchema.properties[DRY_RUN_ARGUMENT] = DRY_RUN_SCHEMA;
+    }
+
+    this.tools.set(options.name, {
+      name: options.name,
+      description: options.description,
+      inputSchema,
+      ...(options.output && { outputSchema: dtoToJsonSchema(options.output) }),
+      annotations: options.annotations,
+      scope:
+        options.scope ??
+        (options.annotations.readOnlyHint ? "read" : "execute"),
+      input: options.input,
+      handler,
+    });
+  }
+}
@@ -2,128 +2,264 @@ import {
   Controller,
   Get,
   Post,
+  Delete,
   Body,
   Res,
   Req,
-  Header,
+  Query,
+  Headers,
   HttpCode,
   HttpStatus,
   Logger,
+  UseGuards,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
 } from "@nestjs/common";
-import { ApiTags, ApiOperation, ApiResponse } from "@nestjs/swagger";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiHeader,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
 import type { Response, Request } from "express";
-import { McpService } from "./mcp.service";
-import type { McpRequest } from "./mcp.service";
+import { McpService, SUPPORTED_PROTOCOL_VERSIONS } from "./mcp.service";
+import type { McpMessage, McpRequest } from "./mcp.service";
+import { McpSessionService } from "./mcp-session.service";
+import type { McpSession } from "./mcp-session.service";
+import { McpAuthGuard } from "../auth/mcp-auth.guard";
+import { Public } from "../auth/public.decorator";
+import { Principal } from "../auth/principal.decorator";
+import type { AuthPrincipal } from "../auth/auth.service";
+
+const KEEP_ALIVE_INTERVAL = 30000;
 
 @ApiTags("MCP Protocol")
+@ApiBearerAuth()
+@UseGuards(McpAuthGuard)
 @Controller("mcp")
 export class McpController {
   private readonly logger = new Logger(McpController.name);
 
-  constructor(private readonly mcpService: McpService) {}
+  constructor(
+    private readonly mcpService: McpService,
+    private readonly sessionService: McpSessionService,
+  ) {}
 
   /**
-   * Get MCP server information
+   * Get MCP server information, or open the server-initiated stream of a
+   * Streamable HTTP session when the client asks for text/event-stream
    */
   @Get()
   @ApiOperation({ summary: "Get MCP server information and available tools" })
+  @ApiHeader({ name: "Mcp-Session-Id", required: false })
   @ApiResponse({
     status: 200,
     description: "MCP server information with tools list"
   })
-  getMcpInfo() {
+  getMcpInfo(
+    @Headers("accept") accept: string | undefined,
+    @Headers("mcp-session-id") sessionId: string | undefined,
+    @Principal() principal: AuthPrincipal | undefined,
+    @Req() request: Request,
+    @Res() response: Response,
+  ) {
+    if (accept?.includes("text/event-stream")) {
+      return this.openSessionStream(sessionId, principal, request, response);
+    }
+
     // Return simplified format compatible with http-stdio-proxy
-    const tools = this.mcpService.getTools();
-    return {
+    const tools = this.mcpService.getTools(principal);
+    response.json({
       name: "aave-mcp",
       version: "1.0.0",
-      protocol_version: "2024-11-05", // Use protocol_version not protocolVersion
+      protocol_version: SUPPORTED_PROTOCOL_VERSIONS[0], // Use protocol_version not protocolVersion
+      supported_protocol_versions: SUPPORTED_PROTOCOL_VERSIONS,
       endpoint: "/mcp",
       status: "ready",
       tools: tools.map(t => t.name) // Return only tool names, not full schemas
-    };
+    });
   }
 
   /**
    * SSE endpoint for MCP over HTTP (remote mode)
+   *
+   * Opens a session and announces the endpoint the client must POST its
+   * messages to. Responses and server notifications are pushed back over
+   * this stream.
    */
   @Get("sse")
-  @Header("Content-Type", "text/event-stream")
-  @Header("Cache-Control", "no-cache")
-  @Header("Connection", "keep-alive")
-  @Header("X-Accel-Buffering", "no")
   @ApiOperation({
     summary: "MCP Server-Sent Events endpoint for remote Claude Desktop",
   })
-  async handleMcpSse(@Res() response: Response, @Req() request: Request) {
-    this.logger.log("MCP SSE connection established");
+  handleMcpSse(
+    @Principal() principal: AuthPrincipal | undefined,
+    @Res() response: Response,
+    @Req() request: Request,
+  ) {
+    this.openEventStream(response);
 
-    // Send initial connection message
-    response.write(
-      `data: ${JSON.stringify({
-        jsonrpc: "2.0",
-        method: "connection/ready",
-        params: {
-          serverInfo: {
-            name: "aave-mcp",
-            version: "1.0.0",
-            protocolVersion: "2024-11-05",
-          },
-        },
-      })}\n\n`,
+    const session = this.sessionService.create("sse", (message) =>
+      this.writeEvent(response, message),
     );
+    session.principal = principal;
 
-    // Send capabilities
+    this.logger.log(`MCP SSE connection established: ${session.id}`);
+
+    // Tell the client where to send its messages for this session
     response.write(
-      `data: ${JSON.stringify({
-        jsonrpc: "2.0",
-        method: "capabilities/update",
-        params: {
-          capabilities: {
-            tools: {},
-            completion: {
-              models: ["aave-mcp"],
-            },
-          },
-        },
-      })}\n\n`,
+      `event: endpoint\ndata: /mcp/message?sessionId=${session.id}\n\n`,
     );
 
     // Keep connection alive
     const keepAlive = setInterval(() => {
       response.write(":keepalive\n\n");
-    }, 30000);
+    }, KEEP_ALIVE_INTERVAL);
 
     // Handle client disconnect
     request.on("close", () => {
-      this.logger.log("MCP SSE connection closed");
+      this.logger.log(`MCP SSE connection closed: ${session.id}`);
       clearInterval(keepAlive);
+      this.sessionService.remove(session.id);
     });
-
-    // Process incoming messages via POST to /mcp/message
   }
 
   /**
    * Handle MCP messages for SSE transport
+   *
+   * With a sessionId the response is delivered over the matching SSE stream
+   * and the POST is acknowledged with 202. Without one the response is
+   * returned inline, as before.
    */
   @Post("message")
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "Send MCP request via HTTP POST" })
   @ApiResponse({ status: 200, description: "MCP response" })
-  async handleMcpMessage(@Body() request: McpRequest) {
-    this.logger.log(`MCP Message: ${request.method}`);
-    return await this.mcpService.handleRequest(request);
+  @ApiResponse({ status: 202, description: "Accepted, response sent over SSE" })
+  async handleMcpMessage(
+    @Body() body: McpRequest | McpRequest[],
+    @Query("sessionId") sessionId: string | undefined,
+    @Principal() principal: AuthPrincipal | undefined,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    if (!sessionId) {
+      const reply = await this.mcpService.handleMessage(body, { principal });
+      if (!reply) {
+        response.status(HttpStatus.ACCEPTED);
+      }
+      return reply ?? undefined;
+    }
+
+    const session = this.getSession(sessionId, principal);
+
+    // Acknowledge now; a tool call may take as long as a transaction does
+    response.status(HttpStatus.ACCEPTED);
+    this.mcpService
+      .handleMessage(body, { session, principal })
+      .then((reply) => {
+        if (reply) {
+          session.send?.(reply);
+        }
+      })
+      .catch((error: Error) => {
+        this.logger.error(
+          `Failed to handle message for session ${session.id}: ${error.message}`,
+        );
+      });
+
+    return "Accepted";
   }
 
   /**
-   * Standard HTTP POST endpoint for MCP (alternative to SSE)
+   * Streamable HTTP endpoint for MCP
+   *
+   * An initialize request without a session starts one and returns its id in
+   * the Mcp-Session-Id header. Tool calls are answered over a one-shot SSE
+   * stream when the client accepts it, everything else as plain JSON.
+   * Requests without a session header are still served statelessly.
    */
   @Post()
-  @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: "Send MCP request via standard HTTP POST" })
+  @ApiHeader({ name: "Mcp-Session-Id", required: false })
+  @ApiHeader({ name: "MCP-Protocol-Version", required: false })
   @ApiResponse({ status: 200, description: "MCP response" })
-  async handleMcpPost(@Body() request: McpRequest) {
-    return await this.mcpService.handleRequest(request);
+  @ApiResponse({ status: 202, description: "Notification accepted" })
+  async handleMcpPost(
+    @Body() body: McpRequest | McpRequest[],
+    @Headers("accept") accept: string | undefined,
+    @Headers("mcp-session-id") sessionId: string | undefined,
+    @Headers("mcp-protocol-version") protocolVersion: string | undefined,
+    @Principal() principal: AuthPrincipal | undefined,
+    @Res() response: Response,
+  ) {
+    if (
+      protocolVersion &&
+      !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)
+    ) {
+      throw new BadRequestException(
+        `Unsupported MCP protocol version: ${protocolVersion}`,
+      );
+    }
+
+    const messages = Array.isArray(body) ? body : [body];
+    let session = sessionId ? this.getSession(sessionId, principal) : undefined;
+
+    if (!session && messages.some((m) => m?.method === "initialize")) {
+      session = this.sessionService.create("streamable-http");
+      session.principal = principal;
+      response.setHeader("Mcp-Session-Id", session.id);
+    }
+
+    const hasToolCall = messages.some(
+      (m) => m?.method === "tools/call" && m.id !== undefined,
+    );
+
+    if (hasToolCall && accept?.includes("text/event-stream")) {
+      this.openEventStream(response);
+      const reply = await this.mcpService.handleMessage(body, {
+        session,
+        principal,
+        notify: (message) => this.writeEvent(response, message),
+      });
+      if (reply) {
+        this.writeEvent(response, reply);
+      }
+      response.end();
+      return;
+    }
+
+    const reply = await this.mcpService.handleMessage(body, {
+      session,
+      principal,
+    });
+
+    // Notifications and client responses get no reply
+    if (!reply) {
+      response.status(HttpStatus.ACCEPTED).end();
+      return;
+    }
+
+    response.status(HttpStatus.OK).json(reply);
+  }
+
+  /**
+   * Terminate a Streamable HTTP session
+   */
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "End an MCP session" })
+  @ApiHeader({ name: "Mcp-Session-Id", required: true })
+  @ApiResponse({ status: 204, description: "Session ended" })
+  deleteSession(
+    @Headers("mcp-session-id") sessionId: string | undefined,
+    @Principal() principal: AuthPrincipal | undefined,
+  ) {
+    if (!sessionId) {
+      throw new BadRequestException("Mcp-Session-Id header is required");
+    }
+
+    this.sessionService.remove(this.getSession(sessionId, principal).id);
   }
 
   /**
@@ -135,9 +271,9 @@ export class McpController {
     status: 200,
     description: "List of MCP tools with schemas",
   })
-  getTools() {
+  getTools(@Principal() principal: AuthPrincipal | undefined) {
     return {
-      tools: this.mcpService.getTools(),
+      tools: this.mcpService.getTools(principal),
     };
   }
 
@@ -150,16 +286,18 @@ export class McpController {
     status: 200,
     description: "Complete MCP server information",
   })
-  getFullInfo() {
+  getFullInfo(@Principal() principal: AuthPrincipal | undefined) {
     return {
       name: "aave-mcp",
       version: "1.0.0",
       description: "Aave V3 MCP Server for Base network",
       protocol: "MCP",
-      protocolVersion: "2024-11-05",
-      transport: ["http", "sse", "stdio"],
-      tools: this.mcpService.getTools(),
+      protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0],
+      supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+      transport: ["streamable-http", "http", "sse", "stdio"],
+      tools: this.mcpService.getTools(principal),
       endpoints: {
+        streamableHttp: "/mcp",
         sse: "/mcp/sse",
         post: "/mcp",
         tools: "/mcp/tools",
@@ -173,15 +311,84 @@ export class McpController {
    * Health check for MCP server
    */
   @Get("health")
+  @Public()
   @ApiOperation({ summary: "MCP server health check" })
   @ApiResponse({ status: 200, description: "MCP server is healthy" })
   getMcpHealth() {
     return {
       status: "healthy",
       protocol: "MCP",
-      version: "2024-11-05",
-      transport: ["stdio", "sse", "http"],
+      version: SUPPORTED_PROTOCOL_VERSIONS[0],
+      transport: ["stdio", "sse", "http", "streamable-http"],
       timestamp: new Date().toISOString(),
     };
   }
+
+  /**
+   * Sessions are only visible to the key that opened them
+   */
+  private getSession(
+    sessionId: string,
+    principal: AuthPrincipal | undefined,
+  ): McpSession {
+    const session = this.sessionService.get(sessionId);
+    if (!session || session.principal?.id !== principal?.id) {
+      throw new NotFoundException(`Unknown MCP session: ${sessionId}`);
+    }
+    this.sessionService.touch(session);
+    return session;
+  }
+
+  /**
+   * Attach a GET stream to a Streamable HTTP session for server-initiated
+   * messages
+   */
+  private openSessionStream(
+    sessionId: string | undefined,
+    principal: AuthPrincipal | undefined,
+    request: Request,
+    response: Response,
+  ) {
+    if (!sessionId) {
+      throw new BadRequestException("Mcp-Session-Id header is required");
+    }
+
+    const session = this.getSession(sessionId, principal);
+    if (session.send) {
+      throw new ConflictException(
+        `Session ${sessionId} already has an open stream`,
+      );
+    }
+
+    this.openEventStream(response);
+    session.send = (message) => this.writeEvent(response, message);
+    session.close = () => response.end();
+    this.logger.log(`MCP stream opened for session ${session.id}`);
+
+    const keepAlive = setInterval(() => {
+      response.write(":keepalive\n\n");
+    }, KEEP_ALIVE_INTERVAL);
+
+    request.on("close", () => {
+      clearInterval(keepAlive);
+      session.send = undefined;
+      session.close = undefined;
+      // Idle time counts from when the client disconnected
+      this.sessionService.touch(session);
+      this.logger.log(`MCP stream closed for session ${session.id}`);
+    });
+  }
+
+  private openEventStream(response: Response) {
+    response.status(HttpStatus.OK);
+    response.setHeader("Content-Type", "text/event-stream");
+    response.setHeader("Cache-Control", "no-cache");
+    response.setHeader("Connection", "keep-alive");
+    response.setHeader("X-Accel-Buffering", "no");
+    response.flushHeaders();
+  }
+
+  private writeEvent(response: Response, message: McpMessage | McpMessage[]) {
+    response.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
 }
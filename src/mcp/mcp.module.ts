@@ -1,17 +1,60 @@
 import { Module } from "@nestjs/common";
+import { DiscoveryModule } from "@nestjs/core";
 import { McpController } from "./mcp.controller";
 import { McpService } from "./mcp.service";
+import { McpSessionService } from "./mcp-session.service";
+import { McpExplorer } from "./mcp-explorer.service";
+import { McpToolRegistry } from "./mcp-tool-registry.service";
+import { McpResourceRegistry } from "./mcp-resource-registry.service";
+import { McpSubscriptionService } from "./mcp-subscription.service";
+import { McpPromptRegistry } from "./mcp-prompt-registry.service";
+import { McpLoggingService } from "./mcp-logging.service";
+import { McpCompletionService } from "./mcp-completion.service";
+import { McpElicitationService } from "./mcp-elicitation.service";
+import { McpIdempotencyService } from "./mcp-idempotency.service";
+import { McpRateLimitService } from "./mcp-rate-limit.service";
+import { AaveTools } from "./tools/aave.tools";
+import { SwapTools } from "./tools/swap.tools";
+import { TransactionBuilderTools } from "./tools/transaction-builder.tools";
+import { BlockchainTools } from "./tools/blockchain.tools";
+import { OneInchTools } from "./tools/one-inch.tools";
+import { AuditTools } from "./tools/audit.tools";
+import { AaveResources } from "./resources/aave.resources";
+import { AavePrompts } from "./prompts/aave.prompts";
 import { AaveModule } from "../aave/aave.module";
 import { SwapModule } from "../swap/swap.module";
 import { BlockchainModule } from "../blockchain/blockchain.module";
 import { SmartDepositModule } from "../smart-deposit/smart-deposit.module";
 import { TransactionBuilderModule } from "../transaction-builder/transaction-builder.module";
 import { OneInchModule } from "../one-inch/one-inch.module";
+import { AuthModule } from "../auth/auth.module";
+import { AuditModule } from "../audit/audit.module";
 
 @Module({
-  imports: [AaveModule, SwapModule, BlockchainModule, SmartDepositModule, TransactionBuilderModule, OneInchModule],
+  imports: [DiscoveryModule, AaveModule, SwapModule, BlockchainModule, SmartDepositModule, TransactionBuilderModule, OneInchModule, AuthModule, AuditModule],
   controllers: [McpController],
-  providers: [McpService],
-  exports: [McpService],
+  providers: [
+    McpService,
+    McpSessionService,
+    McpExplorer,
+    McpToolRegistry,
+    McpResourceRegistry,
+    McpSubscriptionService,
+    McpPromptRegistry,
+    McpLoggingService,
+    McpCompletionService,
+    McpElicitationService,
+    McpIdempotencyService,
+    McpRateLimitService,
+    AaveTools,
+    SwapTools,
+    TransactionBuilderTools,
+    BlockchainTools,
+    OneInchTools,
+    AuditTools,
+    AaveResources,
+    AavePrompts,
+  ],
+  exports: [McpService, McpSessionService, McpLoggingService],
 })
 export class McpModule {}
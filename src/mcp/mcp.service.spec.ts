@@ -0,0 +1,152 @@
+import { Logger } from "@nestjs/common";
+import { McpService } from "./mcp.service";
+import { McpLoggingService } from "./mcp-logging.service";
+import type { McpToolRegistry } from "./mcp-tool-registry.service";
+import type { McpResourceRegistry } from "./mcp-resource-registry.service";
+import type { McpSubscriptionService } from "./mcp-subscription.service";
+import type { McpPromptRegistry } from "./mcp-prompt-registry.service";
+import type { McpCompletionService } from "./mcp-completion.service";
+import type { McpElicitationService } from "./mcp-elicitation.service";
+import type { McpSession, McpSessionService } from "./mcp-session.service";
+import type { McpIdempotencyService } from "./mcp-idempotency.service";
+import type { McpRateLimitService } from "./mcp-rate-limit.service";
+import type { AuditService } from "../audit/audit.service";
+
+// jose is ESM-only, which Jest's CommonJS runtime cannot load; OAuth is not
+// exercised here
+jest.mock("jose", () => ({}));
+
+describe("McpService", () => {
+  let resolveResponse: jest.Mock;
+  let service: McpService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    resolveResponse = jest.fn();
+
+    // Only the JSON-RPC envelope handling is exercised here
+    service = new McpService(
+      {} as McpToolRegistry,
+      {} as McpResourceRegistry,
+      {} as McpSubscriptionService,
+      {} as McpPromptRegistry,
+      new McpLoggingService(),
+      {} as McpCompletionService,
+      {} as McpElicitationService,
+      { resolveResponse } as unknown as McpSessionService,
+      {} as AuditService,
+      {} as McpIdempotencyService,
+      {} as McpRateLimitService,
+    );
+  });
+
+  describe("handleMessage", () => {
+    it("answers ping with an empty result", async () => {
+      await expect(
+        service.handleMessage({ jsonrpc: "2.0", id: 1, method: "ping" }),
+      ).resolves.toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+    });
+
+    it("reports unknown methods", async () => {
+      await expect(
+        service.handleMessage({ jsonrpc: "2.0", id: "a", method: "nope" }),
+      ).resolves.toEqual({
+        jsonrpc: "2.0",
+        id: "a",
+        error: { code: -32601, message: "Method not found: nope" },
+      });
+    });
+
+    it("sends nothing back for notifications", async () => {
+      await expect(
+        service.handleMessage({
+          jsonrpc: "2.0",
+          method: "notifications/initialized",
+        }),
+      ).resolves.toBeNull();
+      await expect(
+        service.handleMessage({ jsonrpc: "2.0", method: "ping" }),
+      ).resolves.toBeNull();
+    });
+
+    it("hands client responses to the session", async () => {
+      const session = { id: "session" } as McpSession;
+      const response = { jsonrpc: "2.0", id: 7, result: { action: "accept" } };
+
+      await expect(
+        service.handleMessage(response, { session }),
+      ).resolves.toBeNull();
+      expect(resolveResponse).toHaveBeenCalledWith(session, response);
+    });
+
+    it.each([
+      ["a non-object", "ping", null],
+      ["a missing jsonrpc version", { id: 3, method: "ping" }, 3],
+      [
+        "an id of the wrong type",
+        { jsonrpc: "2.0", id: {}, method: "ping" },
+        null,
+      ],
+      [
+        "a method that is not a string",
+        { jsonrpc: "2.0", id: 4, method: 5 },
+        4,
+      ],
+    ])("rejects %s as an invalid request", async (_, message, id) => {
+      const response = await service.handleMessage(message);
+
+      expect(response).toMatchObject({
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32600 },
+      });
+    });
+  });
+
+  describe("handleMessage with batches", () => {
+    it("answers the requests of a batch in order, skipping notifications", async () => {
+      await expect(
+        service.handleMessage([
+          { jsonrpc: "2.0", id: 1, method: "ping" },
+          { jsonrpc: "2.0", method: "notifications/initialized" },
+          { jsonrpc: "1.0", id: 2, method: "ping" },
+          { jsonrpc: "2.0", id: 3, method: "nope" },
+        ]),
+      ).resolves.toEqual([
+        { jsonrpc: "2.0", id: 1, result: {} },
+        {
+          jsonrpc: "2.0",
+          id: 2,
+          error: {
+            code: -32600,
+            message: "Invalid Request: expected a JSON-RPC 2.0 message",
+          },
+        },
+        {
+          jsonrpc: "2.0",
+          id: 3,
+          error: { code: -32601, message: "Method not found: nope" },
+        },
+      ]);
+    });
+
+    it("sends nothing back for a batch of notifications", async () => {
+      await expect(
+        service.handleMessage([
+          { jsonrpc: "2.0", method: "notifications/initialized" },
+          { jsonrpc: "2.0", method: "notifications/cancelled" },
+        ]),
+      ).resolves.toBeNull();
+    });
+
+    it("rejects an empty batch", async () => {
+      await expect(service.handleMessage([])).resolves.toMatchObject({
+        id: null,
+        error: { code: -32600, message: "Invalid Request: empty batch" },
+      });
+    });
+  });
+});
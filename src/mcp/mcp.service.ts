@@ -1,20 +1,63 @@
-import { Injectable, Logger } from "@nestjs/common";
-import { AaveService } from "../aave/aave.service";
-import { SwapService } from "../swap/swap.service";
-import { AdvancedSwapService } from "../swap/advanced-swap.service";
-import { BlockchainService } from "../blockchain/blockchain.service";
-import { SmartDepositService } from "../smart-deposit/smart-deposit.service";
-import { TransactionBuilderService } from "../transaction-builder/transaction-builder.service";
-import { OneInchService } from "../one-inch/one-inch.service";
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from "@nestjs/common";
+import { McpToolRegistry, DRY_RUN_ARGUMENT } from "./mcp-tool-registry.service";
+import { McpResourceRegistry } from "./mcp-resource-registry.service";
+import { McpSubscriptionService } from "./mcp-subscription.service";
+import { McpPromptRegistry } from "./mcp-prompt-registry.service";
+import { McpLoggingService, isMcpLogLevel } from "./mcp-logging.service";
+import { McpCompletionService } from "./mcp-completion.service";
+import { McpElicitationService } from "./mcp-elicitation.service";
+import { McpSessionService } from "./mcp-session.service";
+import {
+  McpIdempotencyService,
+  IDEMPOTENCY_KEY_ARGUMENT,
+  isIdempotencyKey,
+} from "./mcp-idempotency.service";
+import {
+  McpRateLimitService,
+  ExecutionQuotaError,
+} from "./mcp-rate-limit.service";
+import {
+  FORBIDDEN_ERROR_CODE,
+  RATE_LIMITED_ERROR_CODE,
+} from "./mcp-error-codes";
+import type { RateLimitDenial } from "./mcp-rate-limit.service";
+import type { RegisteredTool } from "./mcp-tool-registry.service";
+import type { JsonSchema } from "./dto-schema.util";
+import type { ToolAnnotations } from "./tool.decorator";
+import { toToolError, ToolErrorCode, ToolExecutionError } from "./tool-error";
+import type { ToolError } from "./tool-error";
+import type { McpSession } from "./mcp-session.service";
+import type {
+  ExecutionOptions,
+  ExecutionProgress,
+  ExecutionStep,
+  PlannedTransaction,
+} from "../common/interfaces/execution-options.interface";
+import { hasScope } from "../auth/auth.service";
+import { AuditService, findTransactionHashes } from "../audit/audit.service";
+import type { AuditOutcome } from "../audit/audit.service";
+import type { AuthPrincipal, AuthScope } from "../auth/auth.service";
+
+// Newest first; the first entry is offered when the client asks for an
+// unknown revision
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  "2025-06-18",
+  "2025-03-26",
+  "2024-11-05",
+];
 
 export interface McpTool {
   name: string;
   description: string;
-  inputSchema: {
-    type: string;
-    properties: Record<string, any>;
-    required?: string[];
-  };
+  inputSchema: JsonSchema;
+  outputSchema?: JsonSchema;
+  annotations: ToolAnnotations;
 }
 
 export interface McpRequest {
@@ -26,7 +69,7 @@ export interface McpRequest {
 
 export interface McpResponse {
   jsonrpc: string;
-  id: string | number;
+  id: string | number | null;
   result?: any;
   error?: {
     code: number;
@@ -35,559 +78,260 @@ export interface McpResponse {
   };
 }
 
+export interface McpNotification {
+  jsonrpc: string;
+  method: string;
+  params?: any;
+}
+
+export type McpMessage = McpRequest | McpResponse | McpNotification;
+
+// Steps after which a transaction is on chain
+const LANDED_STEPS: ExecutionStep[] = [
+  "approval",
+  "swap_confirmed",
+  "supply_confirmed",
+  "repay_confirmed",
+];
+
+// Scope needed for methods other than tools/call, which checks each tool's
+const METHOD_SCOPES: Record<string, AuthScope> = {
+  "resources/list": "read",
+  "resources/templates/list": "read",
+  "resources/read": "read",
+  "resources/subscribe": "read",
+  "resources/unsubscribe": "read",
+  "prompts/list": "read",
+  "prompts/get": "read",
+  "completion/complete": "read",
+};
+
+// What a tool call produced, gathered for its audit entry
+interface ToolCallAudit {
+  transactionHashes: string[];
+  result?: unknown;
+  error?: ToolError;
+  // Answered from an earlier call with the same idempotency key
+  replayed?: boolean;
+}
+
+export interface McpRequestContext {
+  session?: McpSession;
+  // Authenticated caller; unset when authentication is off
+  principal?: AuthPrincipal;
+  // Stream tied to the request being handled; preferred over the session's
+  // stream for messages about that request
+  notify?: (message: McpMessage) => void;
+}
+
 @Injectable()
 export class McpService {
   private readonly logger = new Logger(McpService.name);
+  // Abort controllers of running tool calls, keyed by caller, session and
+  // request id
+  private readonly inFlight = new Map<string, AbortController>();
 
   constructor(
-    private readonly aaveService: AaveService,
-    private readonly swapService: SwapService,
-    private readonly advancedSwapService: AdvancedSwapService,
-    private readonly blockchainService: BlockchainService,
-    private readonly smartDepositService: SmartDepositService,
-    private readonly transactionBuilder: TransactionBuilderService,
-    private readonly oneInchService: OneInchService,
+    private readonly toolRegistry: McpToolRegistry,
+    private readonly resourceRegistry: McpResourceRegistry,
+    private readonly subscriptionService: McpSubscriptionService,
+    private readonly promptRegistry: McpPromptRegistry,
+    private readonly loggingService: McpLoggingService,
+    private readonly completionService: McpCompletionService,
+    private readonly elicitationService: McpElicitationService,
+    private readonly sessionService: McpSessionService,
+    private readonly auditService: AuditService,
+    private readonly idempotencyService: McpIdempotencyService,
+    private readonly rateLimitService: McpRateLimitService,
   ) {}
 
   /**
-   * Get all available MCP tools
+   * Get all available MCP tools, or those the caller may call
    */
-  getTools(): McpTool[] {
-    return [
-      // Aave Tools
-      {
-        name: "aave_stake",
-        description:
-          "Stake (supply) tokens to Aave V3 protocol on Base network",
-        inputSchema: {
-          type: "object",
-          properties: {
-            asset: {
-              type: "string",
-              description: "Token symbol (USDC, WETH, etc)",
-              enum: ["USDC", "USDbC", "USDT", "DAI", "GHO", "EURC", "WETH", "cbETH", "wstETH", "weETH", "ezETH", "wrsETH", "cbBTC", "LBTC", "AAVE"],
-            },
-            amount: {
-              type: "string",
-              description: "Amount to stake",
-            },
-            userAddress: {
-              type: "string",
-              description: "User wallet address",
-            },
-          },
-          required: ["asset", "amount", "userAddress"],
-        },
-      },
-      {
-        name: "aave_withdraw",
-        description: "Withdraw staked tokens from Aave V3",
-        inputSchema: {
-          type: "object",
-          properties: {
-            asset: {
-              type: "string",
-              description: "Token symbol",
-              enum: ["USDC", "USDbC", "USDT", "DAI", "GHO", "EURC", "WETH", "cbETH", "wstETH", "weETH", "ezETH", "wrsETH", "cbBTC", "LBTC", "AAVE"],
-            },
-            amount: {
-              type: "string",
-              description: 'Amount to withdraw (or "max" for all)',
-            },
-            userAddress: {
-              type: "string",
-              description: "User wallet address",
-            },
-          },
-          required: ["asset", "amount", "userAddress"],
-        },
-      },
-      {
-        name: "aave_borrow",
-        description: "Borrow tokens from Aave V3 using collateral",
-        inputSchema: {
-          type: "object",
-          properties: {
-            asset: {
-              type: "string",
-              description: "Token to borrow",
-              enum: ["USDC", "USDbC", "USDT", "DAI", "GHO", "EURC"],
-            },
-            amount: {
-              type: "string",
-              description: "Amount to borrow",
-            },
-            rateMode: {
-              type: "number",
-              description: "Interest rate mode (1=stable, 2=variable)",
-              default: 2,
-            },
-            userAddress: {
-              type: "string",
-              description: "User wallet address",
-            },
-          },
-          required: ["asset", "amount", "rateMode", "userAddress"],
-        },
-      },
-      {
-        name: "aave_repay",
-        description: "Repay borrowed tokens to Aave V3",
-        inputSchema: {
-          type: "object",
-          properties: {
-            asset: {
-              type: "string",
-              description: "Token to repay",
-            },
-            amount: {
-              type: "string",
-              description: 'Amount to repay (or "max" for all debt)',
-            },
-            rateMode: {
-              type: "number",
-              description: "Interest rate mode (1=stable, 2=variable)",
-              default: 2,
-            },
-            userAddress: {
-              type: "string",
-              description: "User wallet address",
-            },
-          },
-          required: ["asset", "amount", "rateMode", "userAddress"],
-        },
-      },
-      {
-        name: "aave_get_reserves",
-        description:
-          "Get all available reserves on Aave V3 with current APY rates",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
-      },
-      {
-        name: "aave_get_strategies",
-        description: "Get best yield strategies on Aave V3",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
-      },
-      {
-        name: "aave_get_user_positions",
-        description: "Get user positions on Aave V3",
-        inputSchema: {
-          type: "object",
-          properties: {
-            userAddress: {
-              type: "string",
-              description: "User wallet address",
-            },
-          },
-          required: ["userAddress"],
-        },
-      },
-      {
-        name: "aave_get_user_account",
-        description: "Get user account summary including health factor",
-        inputSchema: {
-          type: "object",
-          properties: {
-            userAddress: {
-              type: "string",
-              description: "User wallet address",
-            },
-          },
-          required: ["userAddress"],
-        },
-      },
+  getTools(principal?: AuthPrincipal): McpTool[] {
+    return this.toolRegistry.list(principal?.scopes);
+  }
 
-      // Swap Tools
-      {
-        name: "swap_quote",
-        description: "Get swap quote from Uniswap V3 on Base network",
-        inputSchema: {
-          type: "object",
-          properties: {
-            fromToken: {
-              type: "string",
-              description: "Source token symbol",
-            },
-            toToken: {
-              type: "string",
-              description: "Destination token symbol",
-            },
-            amount: {
-              type: "string",
-              description: "Amount to swap",
-            },
-          },
-          required: ["fromToken", "toToken", "amount"],
-        },
-      },
-      {
-        name: "swap_execute",
-        description: "Execute token swap on Uniswap V3",
-        inputSchema: {
-          type: "object",
-          properties: {
-            fromToken: {
-              type: "string",
-              description: "Source token symbol",
-            },
-            toToken: {
-              type: "string",
-              description: "Destination token symbol",
-            },
-            amount: {
-              type: "string",
-              description: "Amount to swap",
-            },
-            slippage: {
-              type: "number",
-              description: "Max slippage percentage (default 1%)",
-              default: 1,
-            },
-            userAddress: {
-              type: "string",
-              description: "User wallet address",
-            },
-          },
-          required: ["fromToken", "toToken", "amount", "userAddress"],
-        },
-      },
-      {
-        name: "smart_stake",
-        description:
-          "Smart stake with automatic token swap if needed. Will swap tokens first if user does not have the target asset",
-        inputSchema: {
-          type: "object",
-          properties: {
-            targetAsset: {
-              type: "string",
-              description: "Token to stake (will swap if needed)",
-              enum: ["USDC", "USDbC", "USDT", "DAI", "GHO", "EURC", "WETH", "cbETH", "wstETH", "weETH", "ezETH", "wrsETH", "cbBTC", "LBTC", "AAVE"],
-            },
-            targetAmount: {
-              type: "string",
-              description: "Amount to stake in target asset",
-            },
-            allowSwap: {
-              type: "boolean",
-              description: "Allow automatic token swap",
-              default: true,
-            },
-            maxSlippage: {
-              type: "number",
-              description: "Max slippage for swap (1-5%)",
-              default: 1,
-            },
-            userAddress: {
-              type: "string",
-              description: "User wallet address",
-            },
-          },
-          required: ["targetAsset", "targetAmount", "userAddress"],
-        },
-      },
-      {
-        name: "smart_deposit_auto",
-        description:
-          "Automatic deposit from any token or ETH. Will find the best swap route and deposit to Aave",
-        inputSchema: {
-          type: "object",
-          properties: {
-            targetAmount: {
-              type: "string",
-              description: "Amount to deposit in USD",
-            },
-            targetAsset: {
-              type: "string",
-              description: "Asset to deposit (default: USDC)",
-              enum: ["USDC", "USDbC", "USDT", "DAI", "GHO", "EURC", "WETH", "cbETH", "wstETH", "weETH", "ezETH", "wrsETH", "cbBTC", "LBTC", "AAVE"],
-              default: "USDC",
-            },
-            userAddress: {
-              type: "string",
-              description: "Wallet address",
-            },
-            maxSlippage: {
-              type: "number",
-              description: "Maximum slippage for swap (1-5%)",
-              default: 1,
-            },
-          },
-          required: ["targetAmount"],
-        },
-      },
+  /**
+   * Handle an incoming JSON-RPC message or batch
+   *
+   * Returns null when nothing has to be sent back, i.e. for notifications,
+   * client responses and batches made only of those.
+   */
+  async handleMessage(
+    message: unknown,
+    context: McpRequestContext = {},
+  ): Promise<McpResponse | McpResponse[] | null> {
+    if (Array.isArray(message)) {
+      if (message.length === 0) {
+        return this.errorResponse(null, -32600, "Invalid Request: empty batch");
+      }
 
-      // Transaction Builder Tools (No Private Key Required)
-      {
-        name: "prepare_aave_supply",
-        description: "Prepare transaction for Aave deposit (for user signature)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            asset: {
-              type: "string",
-              description: "Token to deposit",
-              enum: ["USDC", "USDbC", "USDT", "DAI", "GHO", "EURC", "WETH", "cbETH", "wstETH", "weETH", "ezETH", "wrsETH", "cbBTC", "LBTC", "AAVE"],
-            },
-            amount: {
-              type: "string",
-              description: "Amount",
-            },
-            userAddress: {
-              type: "string",
-              description: "User address",
-            },
-          },
-          required: ["asset", "amount", "userAddress"],
-        },
-      },
-      {
-        name: "prepare_swap",
-        description: "Prepare swap transaction (for user signature)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            tokenIn: {
-              type: "string",
-              description: "Input token",
-            },
-            tokenOut: {
-              type: "string",
-              description: "Output token",
-            },
-            amountIn: {
-              type: "string",
-              description: "Input amount (or amountOut)",
-            },
-            amountOut: {
-              type: "string",
-              description: "Output amount (or amountIn)",
-            },
-            userAddress: {
-              type: "string",
-              description: "User address",
-            },
-            slippagePercent: {
-              type: "number",
-              description: "Maximum slippage %",
-              default: 1,
-            },
-          },
-          required: ["tokenIn", "tokenOut", "userAddress"],
-        },
-      },
-      {
-        name: "prepare_typed_data",
-        description: "Prepare EIP-712 typed data for signature",
-        inputSchema: {
-          type: "object",
-          properties: {
-            type: {
-              type: "string",
-              description: "Operation type",
-              enum: ["AAVE_SUPPLY", "SWAP", "PERMIT"],
-            },
-            data: {
-              type: "object",
-              description: "Data to sign",
-            },
-            userAddress: {
-              type: "string",
-              description: "User address",
-            },
-          },
-          required: ["type", "data", "userAddress"],
-        },
-      },
-      {
-        name: "simulate_transaction",
-        description: "Simulate transaction execution",
-        inputSchema: {
-          type: "object",
-          properties: {
-            transaction: {
-              type: "object",
-              description: "Unsigned transaction",
-            },
-            from: {
-              type: "string",
-              description: "Sender address",
-            },
-          },
-          required: ["transaction", "from"],
-        },
-      },
-      {
-        name: "broadcast_transaction",
-        description: "Send signed transaction to blockchain",
-        inputSchema: {
-          type: "object",
-          properties: {
-            signedTx: {
-              type: "string",
-              description: "Signed transaction (hex)",
-            },
-          },
-          required: ["signedTx"],
-        },
-      },
+      const replies = await Promise.all(
+        message.map((entry) => this.handleSingleMessage(entry, context)),
+      );
+      const responses = replies.filter(
+        (reply): reply is McpResponse => reply !== null,
+      );
+      return responses.length > 0 ? responses : null;
+    }
 
-      // Blockchain Tools
-      {
-        name: "get_balance",
-        description: "Get token balance for an address",
-        inputSchema: {
-          type: "object",
-          properties: {
-            address: {
-              type: "string",
-              description: "Wallet address",
-            },
-            token: {
-              type: "string",
-              description: "Token symbol (optional, ETH if not specified)",
-            },
-          },
-          required: ["address"],
-        },
-      },
-      {
-        name: "get_all_balances",
-        description: "Get all token balances for an address (ETH + all configured tokens)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            address: {
-              type: "string",
-              description: "Wallet address",
-            },
-          },
-          required: ["address"],
-        },
-      },
-      {
-        name: "get_gas_price",
-        description: "Get current gas price on Base network",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
-      },
+    return this.handleSingleMessage(message, context);
+  }
 
-      // Advanced swap with auto-funding
-      {
-        name: "smart_stake_auto_fund",
-        description: "Smart stake with automatic ETH funding if not enough source token. Will use ETH to cover shortfalls, then swap to target token and stake",
-        inputSchema: {
-          type: "object",
-          properties: {
-            sourceToken: {
-              type: "string",
-              description: "Token to swap from (e.g., USDC)",
-            },
-            targetToken: {
-              type: "string",
-              description: "Token to stake (e.g., GHO)",
-            },
-            sourceAmount: {
-              type: "string",
-              description: "Amount of source token to use",
-            },
-            userAddress: {
-              type: "string",
-              description: "User wallet address",
-            },
-            useEthForShortfall: {
-              type: "boolean",
-              description: "Use ETH to cover any shortfall",
-              default: true,
-            },
-          },
-          required: ["sourceToken", "targetToken", "sourceAmount", "userAddress"],
-        },
-      },
+  private async handleSingleMessage(
+    message: unknown,
+    context: McpRequestContext,
+  ): Promise<McpResponse | null> {
+    if (!message || typeof message !== "object") {
+      return this.errorResponse(null, -32600, "Invalid Request");
+    }
 
-      // 1inch Integration
-      {
-        name: "oneinch_quote",
-        description: "Get swap quote from 1inch DEX aggregator (best rates across multiple DEXs)",
-        inputSchema: {
-          type: "object",
-          properties: {
-            fromToken: {
-              type: "string",
-              description: "Source token symbol",
-            },
-            toToken: {
-              type: "string",
-              description: "Destination token symbol",
-            },
-            amount: {
-              type: "string",
-              description: "Amount to swap",
-            },
-          },
-          required: ["fromToken", "toToken", "amount"],
-        },
-      },
-      {
-        name: "oneinch_swap",
-        description: "Execute swap via 1inch DEX aggregator with best route optimization",
-        inputSchema: {
-          type: "object",
-          properties: {
-            fromToken: {
-              type: "string",
-              description: "Source token symbol",
-            },
-            toToken: {
-              type: "string",
-              description: "Destination token symbol",
-            },
-            amount: {
-              type: "string",
-              description: "Amount to swap",
-            },
-            userAddress: {
-              type: "string",
-              description: "User wallet address",
-            },
-            slippage: {
-              type: "number",
-              description: "Max slippage percentage",
-              default: 1,
-            },
-          },
-          required: ["fromToken", "toToken", "amount", "userAddress"],
-        },
-      },
-    ];
+    const envelope = message as Record<string, any>;
+    const id = envelope.id;
+    const hasValidId =
+      id === undefined ||
+      id === null ||
+      typeof id === "string" ||
+      typeof id === "number";
+
+    if (envelope.jsonrpc !== "2.0" || !hasValidId) {
+      return this.errorResponse(
+        hasValidId && id !== undefined ? id : null,
+        -32600,
+        "Invalid Request: expected a JSON-RPC 2.0 message",
+      );
+    }
+
+    // Responses from the client to server-initiated requests
+    if (
+      envelope.method === undefined &&
+      ("result" in envelope || "error" in envelope)
+    ) {
+      if (context.session) {
+        this.sessionService.resolveResponse(
+          context.session,
+          envelope as McpResponse,
+        );
+      }
+      return null;
+    }
+
+    if (typeof envelope.method !== "string") {
+      return this.errorResponse(
+        id ?? null,
+        -32600,
+        "Invalid Request: method must be a string",
+      );
+    }
+
+    if (id === undefined) {
+      this.handleNotification(envelope as McpNotification, context);
+      return null;
+    }
+
+    // Records logged while serving the request go to its session
+    return this.loggingService.run(context, () =>
+      this.handleRequest(envelope as McpRequest, context),
+    );
+  }
+
+  private handleNotification(
+    notification: McpNotification,
+    context: McpRequestContext,
+  ): void {
+    switch (notification.method) {
+      case "notifications/initialized":
+        this.logger.log("Client initialized");
+        break;
+
+      case "notifications/cancelled": {
+        const { requestId, reason } = notification.params ?? {};
+        const key = this.inFlightKey(context, requestId);
+        if (!key) {
+          this.logger.warn(
+            `Ignoring cancellation of request ${requestId} outside a session`,
+          );
+          break;
+        }
+        this.logger.log(
+          `Client cancelled request ${requestId}: ${reason || "no reason given"}`,
+        );
+        this.inFlight
+          .get(key)
+          ?.abort(
+            new ToolExecutionError(
+              ToolErrorCode.CANCELLED,
+              `Cancelled by client: ${reason || "no reason given"}`,
+            ),
+          );
+        break;
+      }
+
+      default:
+        this.logger.debug(`Ignoring notification: ${notification.method}`);
+    }
   }
 
   /**
    * Handle MCP request
    */
-  async handleRequest(request: McpRequest): Promise<McpResponse> {
+  async handleRequest(
+    request: McpRequest,
+    context: McpRequestContext = {},
+  ): Promise<McpResponse> {
     this.logger.log(`MCP Request: ${request.method}`);
 
+    const scope = METHOD_SCOPES[request.method];
+    if (scope && !hasScope(context.principal, scope)) {
+      this.logger.warn(
+        `Denied ${request.method} to key ${context.principal?.id}: requires ${scope} scope`,
+      );
+      return this.errorResponse(
+        request.id,
+        FORBIDDEN_ERROR_CODE,
+        `${request.method} requires the ${scope} scope`,
+      );
+    }
+
     try {
       switch (request.method) {
         case "initialize":
-          return this.handleInitialize(request);
+          return this.handleInitialize(request, context);
+
+        case "ping":
+          return { jsonrpc: "2.0", id: request.id, result: {} };
 
         case "tools/list":
-          return this.handleListTools(request);
+          return this.handleListTools(request, context);
 
         case "tools/call":
-          return await this.handleToolCall(request);
+          return await this.handleToolCall(request, context);
+
+        case "resources/list":
+          return this.handleListResources(request);
+
+        case "resources/templates/list":
+          return this.handleListResourceTemplates(request);
+
+        case "resources/read":
+          return await this.handleReadResource(request, context);
+
+        case "prompts/list":
+          return this.handleListPrompts(request);
+
+        case "prompts/get":
+          return await this.handleGetPrompt(request, context);
+
+        case "resources/subscribe":
+        case "resources/unsubscribe":
+          return this.handleResourceSubscription(request, context);
 
         case "completion/complete":
-          return this.handleCompletion(request);
+          return await this.handleCompletion(request, context);
+
+        case "logging/setLevel":
+          return this.handleSetLogLevel(request, context);
 
         default:
           return {
@@ -613,17 +357,32 @@ export class McpService {
     }
   }
 
-  private handleInitialize(request: McpRequest): McpResponse {
+  private handleInitialize(
+    request: McpRequest,
+    context: McpRequestContext,
+  ): McpResponse {
+    const protocolVersion = this.negotiateProtocolVersion(
+      request.params?.protocolVersion,
+    );
+
+    if (context.session) {
+      context.session.protocolVersion = protocolVersion;
+      context.session.clientCapabilities = request.params?.capabilities ?? {};
+    }
+
     return {
       jsonrpc: "2.0",
       id: request.id,
       result: {
-        protocolVersion: "2024-11-05",
+        protocolVersion,
         capabilities: {
           tools: {},
-          completion: {
-            models: ["aave-mcp"],
+          resources: {
+            subscribe: true,
           },
+          prompts: {},
+          logging: {},
+          completions: {},
         },
         serverInfo: {
           name: "aave-mcp",
@@ -633,284 +392,724 @@ export class McpService {
     };
   }
 
-  private handleListTools(request: McpRequest): McpResponse {
+  // Request ids are only unique within a session, so calls made without one
+  // cannot be told apart and are not cancellable
+  private inFlightKey(
+    context: McpRequestContext,
+    requestId: string | number,
+  ): string | undefined {
+    if (!context.session) {
+      return undefined;
+    }
+    return `${context.principal?.id ?? ""}:${context.session.id}:${requestId}`;
+  }
+
+  // Limits apply per API key, or per session when auth is off
+  private rateLimitClient(context: McpRequestContext): string {
+    if (context.principal) {
+      return `key:${context.principal.id}`;
+    }
+    return context.session ? `session:${context.session.id}` : "anonymous";
+  }
+
+  private rateLimitedResponse(
+    id: string | number,
+    denial: RateLimitDenial,
+  ): McpResponse {
+    const message =
+      denial.limit === "daily"
+        ? `Daily execution quota of ${denial.allowed} reached`
+        : `Too many ${denial.limit} calls, limit is ${denial.allowed} per ${denial.window}s`;
+    return this.errorResponse(
+      id,
+      RATE_LIMITED_ERROR_CODE,
+      `${message}; retry after ${denial.retryAfter}s`,
+      denial,
+    );
+  }
+
+  private errorResponse(
+    id: string | number | null,
+    code: number,
+    message: string,
+    data?: any,
+  ): McpResponse {
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: { code, message, ...(data !== undefined && { data }) },
+    };
+  }
+
+  /**
+   * Agree to the client's protocol revision when we support it, otherwise
+   * offer the newest one we speak
+   */
+  private negotiateProtocolVersion(requested?: string): string {
+    if (requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+      return requested;
+    }
+    return SUPPORTED_PROTOCOL_VERSIONS[0];
+  }
+
+  private handleListTools(
+    request: McpRequest,
+    context: McpRequestContext,
+  ): McpResponse {
     return {
       jsonrpc: "2.0",
       id: request.id,
       result: {
-        tools: this.getTools(),
+        tools: this.getTools(context.principal),
       },
     };
   }
 
-  private async handleToolCall(request: McpRequest): Promise<McpResponse> {
-    const { name, arguments: args } = request.params;
-    this.logger.log(`Calling tool: ${name}`);
+  /**
+   * Run a tool call and record it in the audit log, whatever its outcome
+   */
+  private async handleToolCall(
+    request: McpRequest,
+    context: McpRequestContext,
+  ): Promise<McpResponse> {
+    const startedAt = new Date();
+    const audit: ToolCallAudit = { transactionHashes: [] };
+    let response: McpResponse | undefined;
 
     try {
-      let result: any;
-
-      switch (name) {
-        // Aave tools
-        case "aave_stake":
-          // First try regular stake
-          try {
-            result = await this.aaveService.stake(args);
-          } catch (error) {
-            // If insufficient balance, try smart stake with auto-funding
-            if (error.message && error.message.includes('Insufficient')) {
-              this.logger.log(`Insufficient balance for direct stake, trying smart stake with auto-funding...`);
-
-              // Extract the needed info from error message
-              const match = error.message.match(/Have: ([\d.]+), Need: ([\d.]+)/);
-              if (match) {
-                const have = parseFloat(match[1]);
-                const need = parseFloat(match[2]);
-                const shortfall = need - have;
-
-                this.logger.log(`Need ${shortfall} more ${args.asset}, will try to swap from ETH or other tokens`);
-              }
-
-              // Use smart stake with auto-funding
-              result = await this.swapService.smartStake({
-                asset: args.asset,
-                amount: args.amount,
-                userAddress: args.userAddress,
-                allowSwap: true,
-                maxSlippage: 2, // Allow 2% slippage for emergency swaps
-              });
-
-              if (result.success || result.swap || result.stake) {
-                // Format result to match expected output
-                result = {
-                  ...result,
-                  message: `Smart stake completed: swapped from available tokens to get ${args.amount} ${args.asset} and staked on Aave`,
-                };
-              }
-            } else {
-              // Re-throw other errors
-              throw error;
-            }
-          }
-          break;
+      response = await this.callTool(request, context, audit);
+      return response;
+    } finally {
+      this.recordToolCall(request, context, startedAt, audit, response);
+    }
+  }
 
-        case "aave_withdraw":
-          result = await this.aaveService.withdraw(args);
-          break;
+  /**
+   * Run a tool and wrap its outcome in a CallToolResult
+   *
+   * Failures while executing are tool output, not protocol errors: they are
+   * returned with isError so the model can see and react to them. Only an
+   * unknown tool or invalid arguments produce a JSON-RPC error.
+   */
+  private async callTool(
+    request: McpRequest,
+    context: McpRequestContext,
+    audit: ToolCallAudit,
+  ): Promise<McpResponse> {
+    const { name, arguments: args } = request.params ?? {};
+    if (typeof name !== "string") {
+      return this.errorResponse(request.id, -32602, "Invalid params", {
+        errors: [{ field: "name", errors: ["name must be a string"] }],
+      });
+    }
+    if (
+      args !== undefined &&
+      (typeof args !== "object" || args === null || Array.isArray(args))
+    ) {
+      return this.errorResponse(request.id, -32602, "Invalid params", {
+        tool: name,
+        errors: [
+          { field: "arguments", errors: ["arguments must be an object"] },
+        ],
+      });
+    }
+    this.logger.log(`Calling tool: ${name}`);
 
-        case "aave_borrow":
-          result = await this.aaveService.borrow(args);
-          break;
+    const tool = this.toolRegistry.get(name);
+    if (!tool) {
+      return this.errorResponse(request.id, -32602, `Unknown tool: ${name}`);
+    }
+    const unavailable = this.toolRegistry.unavailableReason(tool);
+    if (unavailable) {
+      return this.errorResponse(
+        request.id,
+        -32602,
+        `Tool ${name} is not available in ${unavailable}`,
+      );
+    }
+    if (!hasScope(context.principal, tool.scope)) {
+      this.logger.warn(
+        `Denied tool ${name} to key ${context.principal?.id}: requires ${tool.scope} scope`,
+      );
+      return this.errorResponse(
+        request.id,
+        FORBIDDEN_ERROR_CODE,
+        `Tool ${name} requires the ${tool.scope} scope`,
+      );
+    }
 
-        case "aave_repay":
-          result = await this.aaveService.repay(args);
-          break;
+    // The idempotency key and dry run flag are handled here and never reach
+    // the tool
+    const {
+      [IDEMPOTENCY_KEY_ARGUMENT]: idempotencyKey,
+      [DRY_RUN_ARGUMENT]: dryRunArgument,
+      ...toolArgs
+    } = args ?? {};
+    const dryRun = !tool.annotations.readOnlyHint && dryRunArgument === true;
+    if (
+      !tool.annotations.readOnlyHint &&
+      dryRunArgument !== undefined &&
+      typeof dryRunArgument !== "boolean"
+    ) {
+      return this.errorResponse(request.id, -32602, "Invalid params", {
+        tool: name,
+        errors: [
+          {
+            field: DRY_RUN_ARGUMENT,
+            errors: ["dryRun must be a boolean value"],
+          },
+        ],
+      });
+    }
+    // Dry runs count against the execute bucket but not the daily quota
+    const client = this.rateLimitClient(context);
+    const denial = this.rateLimitService.consume(
+      client,
+      tool.annotations.readOnlyHint ? "read" : "execute",
+    );
+    if (denial) {
+      return this.rateLimitedResponse(request.id, denial);
+    }
 
-        case "aave_get_reserves":
-          result = await this.aaveService.getReserves();
-          break;
+    // Dry runs change nothing, so there is nothing to deduplicate
+    const idempotent =
+      !tool.annotations.readOnlyHint && idempotencyKey !== undefined && !dryRun;
+    if (idempotent && !isIdempotencyKey(idempotencyKey)) {
+      return this.errorResponse(request.id, -32602, "Invalid params", {
+        tool: name,
+        errors: [
+          {
+            field: IDEMPOTENCY_KEY_ARGUMENT,
+            errors: ["idempotencyKey must be a string of 1 to 255 characters"],
+          },
+        ],
+      });
+    }
 
-        case "aave_get_strategies":
-          result = await this.aaveService.getBestStrategies();
-          break;
+    const parsed = await this.toolRegistry.parseArguments(tool, toolArgs);
+    if (parsed.errors.length > 0) {
+      return this.errorResponse(request.id, -32602, "Invalid params", {
+        tool: name,
+        errors: parsed.errors,
+      });
+    }
+    this.completionService.rememberAddresses(context.session, parsed.args);
 
-        case "aave_get_user_positions":
-          result = await this.aaveService.getUserPositions(args.userAddress);
-          break;
+    // The daily quota is only charged for calls that actually run, not for
+    // rejected calls or replays
+    const execution = !tool.annotations.readOnlyHint && !dryRun;
 
-        case "aave_get_user_account":
-          result = await this.aaveService.getUserAccountData(args.userAddress);
-          break;
+    if (!idempotent) {
+      const quotaDenial = execution
+        ? this.rateLimitService.consumeExecution(client)
+        : undefined;
+      if (quotaDenial) {
+        return this.rateLimitedResponse(request.id, quotaDenial);
+      }
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        result: await this.executeTool(
+          request,
+          context,
+          tool,
+          parsed.args,
+          audit,
+          dryRun,
+        ),
+      };
+    }
 
-        // Swap tools
-        case "swap_quote":
-          result = await this.swapService.getQuote(args);
-          break;
+    try {
+      // Keys are per caller, so one key holder never sees another's results
+      const { value, replayed } = await this.idempotencyService.run(
+        `${context.principal?.id ?? ""}:${name}:${idempotencyKey}`,
+        parsed.args,
+        async () => {
+          const quotaDenial = this.rateLimitService.consumeExecution(client);
+          if (quotaDenial) {
+            throw new ExecutionQuotaError(quotaDenial);
+          }
+          return {
+            result: await this.executeTool(
+              request,
+              context,
+              tool,
+              parsed.args,
+              audit,
+            ),
+            error: audit.error,
+          };
+        },
+        // A failure that sent nothing may be retried with the same key; once
+        // a transaction went out, replaying the failure keeps it from being
+        // sent twice
+        ({ error }) =>
+          !error ||
+          audit.transactionHashes.length > 0 ||
+          findTransactionHashes(audit.result).length > 0,
+      );
+      if (replayed) {
+        this.logger.log(
+          `Replaying ${name} for idempotency key ${idempotencyKey}`,
+        );
+        audit.replayed = true;
+        audit.error = value.error;
+      }
+      return { jsonrpc: "2.0", id: request.id, result: value.result };
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        return this.errorResponse(request.id, -32602, error.message);
+      }
+      if (error instanceof ExecutionQuotaError) {
+        return this.rateLimitedResponse(request.id, error.denial);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Execute a validated tool call and build its CallToolResult
+   */
+  private async executeTool(
+    request: McpRequest,
+    context: McpRequestContext,
+    tool: RegisteredTool,
+    args: Record<string, any>,
+    audit: ToolCallAudit,
+    dryRun = false,
+  ): Promise<any> {
+    const name = tool.name;
+    const controller = new AbortController();
+    const inFlightKey = this.inFlightKey(context, request.id);
+    if (inFlightKey) {
+      this.inFlight.set(inFlightKey, controller);
+    }
 
-        case "swap_execute":
-          // Check if user has enough balance, if not use smart swap
-          try {
-            const balances = await this.blockchainService.getAllBalances(args.userAddress);
-            const sourceBalance = parseFloat(balances[args.fromToken] || balances[args.fromToken.toUpperCase()] || "0");
-            const requiredAmount = parseFloat(args.amount);
-
-            if (sourceBalance < requiredAmount) {
-              this.logger.log(`Insufficient ${args.fromToken} balance (${sourceBalance} < ${requiredAmount}), trying smart swap`);
-
-              // Try to use other tokens or ETH to get the required amount
-              result = await this.advancedSwapService.smartStakeWithAutoFunding({
-                sourceToken: args.fromToken,
-                targetToken: args.toToken,
-                sourceAmount: args.amount,
-                userAddress: args.userAddress,
-                useEthForShortfall: true
-              });
-            } else {
-              result = await this.swapService.swap(args);
-            }
-          } catch (error) {
-            // If smart swap fails, try regular swap
-            this.logger.warn(`Smart swap failed: ${error.message}, trying regular swap`);
-            result = await this.swapService.swap(args);
+    // Steps whose transactions landed, reported if the run gets cancelled
+    const completedSteps: ExecutionProgress[] = [];
+    // Checks and quotes a dry run went through
+    const checks: ExecutionProgress[] = [];
+    const planned: PlannedTransaction[] = [];
+    const reportProgress = this.progressReporter(request, context);
+    const options: ExecutionOptions = {
+      signal: controller.signal,
+      caller: context.principal,
+      // Nothing is broadcast in a dry run, so there is nothing to confirm
+      ...(dryRun
+        ? { dryRun: planned }
+        : {
+            confirm: this.elicitationService.confirmer(context, (reason) =>
+              controller.abort(reason),
+            ),
+          }),
+      onProgress: (progress) => {
+        if (dryRun) {
+          if (!progress.transactionHash) {
+            checks.push(progress);
           }
-          break;
+          reportProgress?.(progress);
+          return;
+        }
+        if (progress.transactionHash) {
+          audit.transactionHashes.push(progress.transactionHash);
+        }
+        if (LANDED_STEPS.includes(progress.step)) {
+          completedSteps.push(progress);
+        }
+        reportProgress?.(progress);
+      },
+    };
 
-        case "smart_stake":
-          result = await this.swapService.smartStake(args);
-          break;
+    let result: any;
+    try {
+      result = await tool.handler(args, options);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        this.logger.warn(`Tool ${name} failed: ${error.message}`);
+        audit.error = toToolError(error);
+        return this.toolErrorResult(audit.error);
+      }
+    } finally {
+      // A later call may have reused the request id
+      if (inFlightKey && this.inFlight.get(inFlightKey) === controller) {
+        this.inFlight.delete(inFlightKey);
+      }
+    }
 
-        case "smart_deposit_auto":
-          result = await this.smartDepositService.smartDeposit(args);
-          break;
+    // Services may swallow the abort into a failed result, so the signal
+    // decides whether the run was cancelled
+    if (controller.signal.aborted) {
+      this.logger.warn(
+        `Tool ${name} cancelled after ${completedSteps.length} landed step(s)`,
+      );
+      audit.error = {
+        ...toToolError(controller.signal.reason),
+        completedSteps,
+      };
+      return this.toolErrorResult(audit.error);
+    }
 
-        // Transaction builder tools
-        case "prepare_aave_supply":
-          result = await this.transactionBuilder.prepareAaveSupply(args);
-          break;
+    // Some operations report failure in their result instead of throwing
+    if (result?.success === false) {
+      audit.result = result;
+      audit.error = toToolError({
+        message: result.error ?? result.message ?? "Operation failed",
+      });
+      return this.toolErrorResult(audit.error);
+    }
 
-        case "prepare_swap":
-          result = await this.transactionBuilder.prepareSwap(args);
-          break;
+    // The operation's own result describes receipts faked by the dry run
+    // signer, so only the plan is returned
+    if (dryRun) {
+      result = {
+        success: true,
+        simulation: true,
+        dryRun: true,
+        message: `Dry run: ${planned.length} transaction(s) would be sent`,
+        transactions: planned,
+        checks: checks.map(({ step, message }) => ({ step, message })),
+      };
+    } else {
+      audit.result = result;
+    }
 
-        case "prepare_typed_data":
-          result = await this.transactionBuilder.prepareTypedData(args);
-          break;
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+      ...(tool.outputSchema && { structuredContent: result }),
+    };
+  }
 
-        case "simulate_transaction":
-          result = await this.transactionBuilder.simulateTransaction(
-            args.transaction,
-            args.from,
-          );
-          break;
+  private recordToolCall(
+    request: McpRequest,
+    context: McpRequestContext,
+    startedAt: Date,
+    audit: ToolCallAudit,
+    response?: McpResponse,
+  ) {
+    // No response means the call threw past callTool
+    const error = !response
+      ? { code: -32603, message: "Internal error" }
+      : (response.error ?? audit.error);
 
-        case "broadcast_transaction":
-          result = await this.transactionBuilder.broadcastTransaction(args.signedTx);
-          break;
+    let outcome: AuditOutcome;
+    if (!response) {
+      outcome = "failed";
+    } else if (response.error) {
+      outcome = "rejected";
+    } else if (!audit.error) {
+      outcome = "succeeded";
+    } else {
+      outcome =
+        audit.error.code === ToolErrorCode.CANCELLED ? "cancelled" : "failed";
+    }
 
-        // Blockchain tools
-        case "get_balance":
-          // Handle ETH as native token (not ERC20)
-          if (args.token && args.token.toUpperCase() === 'ETH') {
-            // Get ETH balance directly
-            result = await this.blockchainService.getBalance(
-              args.address,
-              undefined, // undefined means get ETH balance
-            );
-          } else if (args.token) {
-            // Get ERC20 token balance
-            const tokenAddress = this.blockchainService.getTokenAddress(args.token);
-            result = await this.blockchainService.getBalance(
-              args.address,
-              tokenAddress,
-            );
-          } else {
-            // Default to ETH if no token specified
-            result = await this.blockchainService.getBalance(
-              args.address,
-              undefined,
-            );
-          }
-          break;
+    void this.auditService.record({
+      timestamp: startedAt.toISOString(),
+      sessionId: context.session?.id,
+      keyId: context.principal?.id,
+      tool: String(request.params?.name),
+      arguments: request.params?.arguments ?? {},
+      durationMs: Date.now() - startedAt.getTime(),
+      outcome,
+      ...(error && { error: { code: error.code, message: error.message } }),
+      ...(audit.replayed && { replayed: true }),
+      transactionHashes: [
+        ...new Set([
+          ...audit.transactionHashes,
+          ...findTransactionHashes(audit.result),
+        ]),
+      ],
+    });
+  }
 
-        case "get_all_balances":
-          result = await this.blockchainService.getAllBalances(args.address);
-          break;
+  /**
+   * Turn execution steps into notifications/progress for requests that
+   * carry a progressToken, collecting the transaction hashes seen so far
+   */
+  private progressReporter(
+    request: McpRequest,
+    context: McpRequestContext,
+  ): ((progress: ExecutionProgress) => void) | undefined {
+    const progressToken = request.params?._meta?.progressToken;
+    const send = context.notify ?? context.session?.send;
+    if (progressToken === undefined || !send) {
+      return undefined;
+    }
 
-        case "get_gas_price":
-          result = await this.blockchainService.getGasPrice();
-          break;
+    const transactionHashes: string[] = [];
+    let count = 0;
 
-        case "smart_stake_auto_fund":
-          result = await this.advancedSwapService.smartStakeWithAutoFunding({
-            sourceToken: args.sourceToken,
-            targetToken: args.targetToken,
-            sourceAmount: args.sourceAmount,
-            userAddress: args.userAddress,
-            useEthForShortfall: args.useEthForShortfall ?? true,
-          });
-          break;
+    return ({ step, message, transactionHash }) => {
+      if (transactionHash && !transactionHashes.includes(transactionHash)) {
+        transactionHashes.push(transactionHash);
+      }
 
-        // 1inch tools
-        case "oneinch_quote":
-          result = await this.oneInchService.getQuote({
-            fromToken: args.fromToken,
-            toToken: args.toToken,
-            amount: args.amount,
-            userAddress: args.userAddress,
-          });
-          break;
+      send({
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: ++count,
+          message,
+          _meta: { step, transactionHashes: [...transactionHashes] },
+        },
+      });
+    };
+  }
 
-        case "oneinch_swap":
-          result = await this.oneInchService.executeSwap({
-            fromToken: args.fromToken,
-            toToken: args.toToken,
-            amount: args.amount,
-            userAddress: args.userAddress,
-            slippage: args.slippage || 1,
-          });
-          break;
+  private toolErrorResult(error: ToolError) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error }, null, 2),
+        },
+      ],
+      isError: true,
+    };
+  }
 
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+  private handleListResources(request: McpRequest): McpResponse {
+    return {
+      jsonrpc: "2.0",
+      id: request.id,
+      result: {
+        resources: this.resourceRegistry.list(),
+      },
+    };
+  }
+
+  private handleListResourceTemplates(request: McpRequest): McpResponse {
+    return {
+      jsonrpc: "2.0",
+      id: request.id,
+      result: {
+        resourceTemplates: this.resourceRegistry.listTemplates(),
+      },
+    };
+  }
+
+  private async handleReadResource(
+    request: McpRequest,
+    context: McpRequestContext,
+  ): Promise<McpResponse> {
+    const uri = request.params?.uri;
+    if (typeof uri !== "string") {
+      return this.errorResponse(request.id, -32602, "Invalid params", {
+        errors: [{ field: "uri", errors: ["uri must be a string"] }],
+      });
+    }
+
+    // Resource reads call the same services as the read tools
+    const denial = this.rateLimitService.consume(
+      this.rateLimitClient(context),
+      "read",
+    );
+    if (denial) {
+      return this.rateLimitedResponse(request.id, denial);
+    }
+
+    try {
+      const contents = await this.resourceRegistry.read(uri);
+      if (!contents) {
+        return this.errorResponse(request.id, -32002, "Resource not found", {
+          uri,
+        });
       }
+      this.completionService.rememberAddresses(context.session, uri);
 
       return {
         jsonrpc: "2.0",
         id: request.id,
-        result: {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        },
+        result: { contents: [contents] },
       };
     } catch (error) {
+      if (error instanceof NotFoundException) {
+        return this.errorResponse(request.id, -32002, "Resource not found", {
+          uri,
+        });
+      }
+      if (error instanceof BadRequestException) {
+        return this.errorResponse(request.id, -32602, error.message, { uri });
+      }
+      throw error;
+    }
+  }
+
+  private handleListPrompts(request: McpRequest): McpResponse {
+    return {
+      jsonrpc: "2.0",
+      id: request.id,
+      result: {
+        prompts: this.promptRegistry.list(),
+      },
+    };
+  }
+
+  private async handleGetPrompt(
+    request: McpRequest,
+    context: McpRequestContext,
+  ): Promise<McpResponse> {
+    const { name, arguments: args } = request.params ?? {};
+    if (!this.promptRegistry.has(name)) {
+      return this.errorResponse(request.id, -32602, `Unknown prompt: ${name}`);
+    }
+
+    const parsed = await this.promptRegistry.parseArguments(name, args ?? {});
+    if (parsed.errors.length > 0) {
+      return this.errorResponse(request.id, -32602, "Invalid params", {
+        prompt: name,
+        errors: parsed.errors,
+      });
+    }
+
+    // Prompts are rendered from the same reads as the read tools
+    const denial = this.rateLimitService.consume(
+      this.rateLimitClient(context),
+      "read",
+    );
+    if (denial) {
+      return this.rateLimitedResponse(request.id, denial);
+    }
+    this.completionService.rememberAddresses(context.session, parsed.args);
+
+    try {
       return {
         jsonrpc: "2.0",
         id: request.id,
-        error: {
-          code: -32000,
-          message: `Tool execution failed: ${error.message}`,
-        },
+        result: await this.promptRegistry.render(name, parsed.args),
       };
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        return this.errorResponse(request.id, -32602, error.message, {
+          prompt: name,
+        });
+      }
+      throw error;
     }
   }
 
-  private handleCompletion(request: McpRequest): McpResponse {
-    const { prompt } = request.params.messages[0];
+  /**
+   * Updates are pushed over the session's stream, so subscribing needs one
+   */
+  private handleResourceSubscription(
+    request: McpRequest,
+    context: McpRequestContext,
+  ): McpResponse {
+    const uri = request.params?.uri;
+    if (typeof uri !== "string") {
+      return this.errorResponse(request.id, -32602, "Invalid params", {
+        errors: [{ field: "uri", errors: ["uri must be a string"] }],
+      });
+    }
+
+    if (!context.session) {
+      return this.errorResponse(
+        request.id,
+        -32600,
+        "Resource subscriptions require a session",
+      );
+    }
 
-    // Simple completion helper
-    const completions = {
-      "stake ": ["USDC", "WETH", "DAI", "cbETH"],
-      "withdraw ": ["USDC", "WETH", "DAI", "cbETH", "max"],
-      "swap ": ["USDC to WETH", "WETH to USDC", "USDT to USDC"],
-      "smart_stake ": ["10 USDC", "0.1 WETH", "100 DAI"],
-    };
+    if (request.method === "resources/unsubscribe") {
+      this.subscriptionService.unsubscribe(context.session.id, uri);
+      return { jsonrpc: "2.0", id: request.id, result: {} };
+    }
 
-    for (const [prefix, suggestions] of Object.entries(completions)) {
-      if (prompt.toLowerCase().includes(prefix)) {
-        return {
-          jsonrpc: "2.0",
-          id: request.id,
-          result: {
-            completion: {
-              values: suggestions.map((s) => prompt + s),
-            },
+    if (!this.subscriptionService.isSubscribable(uri)) {
+      return this.errorResponse(
+        request.id,
+        -32602,
+        "Resource does not support subscriptions",
+        { uri },
+      );
+    }
+
+    this.subscriptionService.subscribe(context.session.id, uri);
+    return { jsonrpc: "2.0", id: request.id, result: {} };
+  }
+
+  /**
+   * Log records are pushed over the session's stream, so the level is kept
+   * per session
+   */
+  private handleSetLogLevel(
+    request: McpRequest,
+    context: McpRequestContext,
+  ): McpResponse {
+    const level = request.params?.level;
+    if (!isMcpLogLevel(level)) {
+      return this.errorResponse(request.id, -32602, "Invalid params", {
+        errors: [
+          { field: "level", errors: ["level must be a valid log level"] },
+        ],
+      });
+    }
+
+    if (!context.session) {
+      return this.errorResponse(
+        request.id,
+        -32600,
+        "Setting a log level requires a session",
+      );
+    }
+
+    context.session.logLevel = level;
+    return { jsonrpc: "2.0", id: request.id, result: {} };
+  }
+
+  private async handleCompletion(
+    request: McpRequest,
+    context: McpRequestContext,
+  ): Promise<McpResponse> {
+    const { ref, argument } = request.params ?? {};
+    if (
+      typeof ref?.type !== "string" ||
+      typeof argument?.name !== "string" ||
+      typeof argument?.value !== "string"
+    ) {
+      return this.errorResponse(request.id, -32602, "Invalid params", {
+        errors: [
+          {
+            field: "ref",
+            errors: ["ref and argument { name, value } are required"],
           },
-        };
-      }
+        ],
+      });
     }
 
-    return {
-      jsonrpc: "2.0",
-      id: request.id,
-      result: {
-        completion: {
-          values: [],
+    // Suggestions may need the reserve list from the chain
+    const denial = this.rateLimitService.consume(
+      this.rateLimitClient(context),
+      "read",
+    );
+    if (denial) {
+      return this.rateLimitedResponse(request.id, denial);
+    }
+
+    try {
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        result: {
+          completion: await this.completionService.complete(
+            ref,
+            argument,
+            context.session,
+          ),
         },
-      },
-    };
+      };
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        return this.errorResponse(request.id, -32602, error.message);
+      }
+      throw error;
+    }
   }
 }
@@ -0,0 +1,21 @@
+import { SetMetadata } from "@nestjs/common";
+import type { Type } from "@nestjs/common";
+
+export const MCP_PROMPT_METADATA = "mcp:prompt";
+
+export interface PromptOptions {
+  name: string;
+  description: string;
+  // DTO describing the arguments; the prompt's argument list is generated
+  // from it
+  input?: Type<unknown>;
+}
+
+/**
+ * Expose a provider method as an MCP prompt
+ *
+ * The method receives the validated arguments and resolves to the text of
+ * the user message that starts the conversation.
+ */
+export const Prompt = (options: PromptOptions) =>
+  SetMetadata(MCP_PROMPT_METADATA, options);
@@ -0,0 +1,160 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { AaveService } from "../../aave/aave.service";
+import { Prompt } from "../prompt.decorator";
+import { AddressDto } from "../../common/dto/account.dto";
+import {
+  DeleveragePromptDto,
+  MoveToBestYieldPromptDto,
+} from "../../common/dto/prompt.dto";
+import { STABLECOIN_ASSETS } from "../../common/constants/assets";
+import type {
+  ReserveData,
+  UserAccountData,
+  UserPosition,
+} from "../../common/dto/aave-result.dto";
+
+@Injectable()
+export class AavePrompts {
+  constructor(private readonly aaveService: AaveService) {}
+
+  @Prompt({
+    name: "review_position",
+    description:
+      "Review an Aave V3 position: health, liquidation risk and yield, with current numbers",
+    input: AddressDto,
+  })
+  async reviewPosition({ address }: AddressDto): Promise<string> {
+    const [account, positions, reserves] = await Promise.all([
+      this.aaveService.getUserAccountData(address),
+      this.aaveService.getUserPositions(address),
+      this.aaveService.getReserves(),
+    ]);
+
+    return [
+      `Review my Aave V3 position on Base for ${address}.`,
+      "",
+      formatAccount(account),
+      "",
+      formatPositions(positions),
+      "",
+      "Current reserve rates:",
+      formatReserves(
+        reserves.filter((r) => positions.some((p) => p.asset === r.symbol)),
+      ),
+      "",
+      "Assess the liquidation risk, whether the collateral is earning a fair",
+      "yield compared to the other reserves, and suggest concrete improvements.",
+      "Do not execute any transaction without asking me first.",
+    ].join("\n");
+  }
+
+  @Prompt({
+    name: "move_to_best_yield",
+    description:
+      "Move an amount of an asset into the highest-yield stablecoin reserve",
+    input: MoveToBestYieldPromptDto,
+  })
+  async moveToBestYield({
+    amount,
+    asset,
+    address,
+  }: MoveToBestYieldPromptDto): Promise<string> {
+    const stablecoins = (await this.aaveService.getReserves())
+      .filter((r) => STABLECOIN_ASSETS.includes(r.symbol))
+      .sort((a, b) => b.apy - a.apy);
+
+    const best = stablecoins[0];
+    if (!best) {
+      throw new BadRequestException("No stablecoin reserve is available");
+    }
+
+    return [
+      `Move ${amount} ${asset} from ${address} into the highest-yield stablecoin reserve on Aave V3.`,
+      "",
+      "Stablecoin reserves by supply APY:",
+      formatReserves(stablecoins),
+      "",
+      `The best reserve right now is ${best.symbol} at ${best.apy.toFixed(2)}% APY.`,
+      asset === best.symbol
+        ? `${asset} is already the best reserve, so supply it directly with aave_stake.`
+        : `Get a quote with swap_quote for ${asset} -> ${best.symbol} and check that the price impact does not eat the APY gain, then swap with swap_execute and supply with aave_stake.`,
+      "If the funds are currently supplied on Aave, withdraw them first with aave_withdraw.",
+      "Show me the plan and wait for my confirmation before executing anything.",
+    ].join("\n");
+  }
+
+  @Prompt({
+    name: "deleverage",
+    description:
+      "Safely repay debt until the account reaches a target health factor",
+    input: DeleveragePromptDto,
+  })
+  async deleverage({ address, target }: DeleveragePromptDto): Promise<string> {
+    const targetHealthFactor = parseFloat(target);
+    if (targetHealthFactor <= 1) {
+      throw new BadRequestException("target must be greater than 1");
+    }
+
+    const [account, positions] = await Promise.all([
+      this.aaveService.getUserAccountData(address),
+      this.aaveService.getUserPositions(address),
+    ]);
+
+    // healthFactor = collateral * liquidationThreshold / debt
+    const collateral = parseFloat(account.totalCollateral);
+    const debt = parseFloat(account.totalDebt);
+    const threshold = account.currentLiquidationThreshold / 100;
+    const maxDebt = (collateral * threshold) / targetHealthFactor;
+    const repay = Math.max(debt - maxDebt, 0);
+
+    return [
+      `Safely deleverage my Aave V3 position on Base for ${address} to a health factor of ${target}.`,
+      "",
+      formatAccount(account),
+      "",
+      formatPositions(positions),
+      "",
+      repay > 0
+        ? `Reaching ${target} requires repaying about $${repay.toFixed(2)} of debt (from $${debt.toFixed(2)} to at most $${maxDebt.toFixed(2)}).`
+        : `The health factor is already at or above ${target}; nothing needs to be repaid.`,
+      "Prefer repaying with wallet balances (aave_repay). If that is not enough,",
+      "withdraw collateral in small steps, swap it to the debt asset and repay,",
+      "re-checking aave_get_user_account after each step so the health factor",
+      "never drops on the way. Confirm each transaction with me first.",
+    ].join("\n");
+  }
+}
+
+function formatAccount(account: UserAccountData): string {
+  return [
+    "Account:",
+    `- Health factor: ${account.healthFactor}`,
+    `- Collateral: $${account.totalCollateral}`,
+    `- Debt: $${account.totalDebt}`,
+    `- Available to borrow: $${account.availableBorrows}`,
+    `- Liquidation threshold: ${account.currentLiquidationThreshold}%`,
+  ].join("\n");
+}
+
+function formatPositions(positions: UserPosition[]): string {
+  if (positions.length === 0) {
+    return "Positions: none";
+  }
+
+  return [
+    "Positions:",
+    ...positions.map(
+      (p) =>
+        `- ${p.asset}: supplied ${p.supplied}, borrowed ${p.borrowed}, supply APY ${p.apy.toFixed(2)}%`,
+    ),
+  ].join("\n");
+}
+
+function formatReserves(reserves: ReserveData[]): string {
+  return reserves
+    .map(
+      (r) =>
+        `- ${r.symbol}: supply ${r.apy.toFixed(2)}%, borrow ${r.borrowApy.toFixed(2)}%, available ${r.availableLiquidity}`,
+    )
+    .join("\n");
+}
@@ -0,0 +1,20 @@
+import { SetMetadata } from "@nestjs/common";
+
+export const MCP_RESOURCE_METADATA = "mcp:resource";
+
+export interface ResourceOptions {
+  // Fixed URI, or an RFC 6570 level 1 template such as aave://x/{symbol}
+  uri: string;
+  name: string;
+  description: string;
+  mimeType?: string;
+}
+
+/**
+ * Expose a provider method as an MCP resource
+ *
+ * The method receives the variables matched from a templated URI and
+ * resolves to the resource data, which is served as JSON.
+ */
+export const Resource = (options: ResourceOptions) =>
+  SetMetadata(MCP_RESOURCE_METADATA, options);
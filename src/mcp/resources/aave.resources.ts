@@ -0,0 +1,69 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { AaveService } from "../../aave/aave.service";
+import { Resource } from "../resource.decorator";
+import { ADDRESS_PATTERN } from "../../common/constants/patterns";
+
+@Injectable()
+export class AaveResources {
+  constructor(private readonly aaveService: AaveService) {}
+
+  @Resource({
+    uri: "aave://base/reserves",
+    name: "Aave V3 reserves",
+    description:
+      "All Aave V3 reserves on Base with current supply and borrow APY",
+  })
+  async reserves() {
+    return { reserves: await this.aaveService.getReserves() };
+  }
+
+  @Resource({
+    uri: "aave://base/reserves/{symbol}",
+    name: "Aave V3 reserve",
+    description: "A single Aave V3 reserve on Base, by asset symbol",
+  })
+  async reserve({ symbol }: Record<string, string>) {
+    const reserves = await this.aaveService.getReserves();
+    const reserve = reserves.find(
+      (r) => r.symbol.toLowerCase() === symbol.toLowerCase(),
+    );
+    if (!reserve) {
+      throw new NotFoundException(`Unknown reserve: ${symbol}`);
+    }
+    return reserve;
+  }
+
+  @Resource({
+    uri: "aave://base/users/{address}/positions",
+    name: "Aave V3 user positions",
+    description: "Supplied and borrowed positions of a wallet on Aave V3",
+  })
+  async positions({ address }: Record<string, string>) {
+    return {
+      positions: await this.aaveService.getUserPositions(
+        this.checkAddress(address),
+      ),
+    };
+  }
+
+  @Resource({
+    uri: "aave://base/users/{address}/account",
+    name: "Aave V3 account health",
+    description:
+      "Collateral, debt, borrowing power and health factor of a wallet on Aave V3",
+  })
+  account({ address }: Record<string, string>) {
+    return this.aaveService.getUserAccountData(this.checkAddress(address));
+  }
+
+  private checkAddress(address: string): string {
+    if (!ADDRESS_PATTERN.test(address)) {
+      throw new BadRequestException(`Invalid address: ${address}`);
+    }
+    return address;
+  }
+}
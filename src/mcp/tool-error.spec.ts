@@ -0,0 +1,76 @@
+import { BadRequestException } from "@nestjs/common";
+import { toToolError, ToolErrorCode, ToolExecutionError } from "./tool-error";
+
+// Shaped like the errors ethers v5 throws
+function ethersError(code: string, reason?: string) {
+  return Object.assign(new Error(`${code} (reason="${reason}")`), {
+    code,
+    reason,
+  });
+}
+
+describe("toToolError", () => {
+  it("keeps the code of a ToolExecutionError", () => {
+    expect(
+      toToolError(
+        new ToolExecutionError(ToolErrorCode.CANCELLED, "Cancelled by user"),
+      ),
+    ).toEqual({ code: ToolErrorCode.CANCELLED, message: "Cancelled by user" });
+  });
+
+  it.each([
+    ["INSUFFICIENT_FUNDS", ToolErrorCode.INSUFFICIENT_GAS_FUNDS],
+    ["CALL_EXCEPTION", ToolErrorCode.EXECUTION_REVERTED],
+    ["UNPREDICTABLE_GAS_LIMIT", ToolErrorCode.EXECUTION_REVERTED],
+    ["TIMEOUT", ToolErrorCode.NETWORK_ERROR],
+    ["SERVER_ERROR", ToolErrorCode.NETWORK_ERROR],
+  ])("classifies ethers %s errors", (ethersCode, code) => {
+    expect(toToolError(ethersError(ethersCode)).code).toBe(code);
+  });
+
+  it("prefers the revert reason over the message", () => {
+    expect(
+      toToolError(ethersError("CALL_EXCEPTION", "HEALTH_FACTOR_TOO_LOW")),
+    ).toEqual({
+      code: ToolErrorCode.EXECUTION_REVERTED,
+      message: "HEALTH_FACTOR_TOO_LOW",
+    });
+  });
+
+  it.each([
+    [
+      "Insufficient USDC balance. Have: 1.0, Need: 5",
+      ToolErrorCode.INSUFFICIENT_BALANCE,
+    ],
+    [
+      "No borrowing capacity. Supply collateral first.",
+      ToolErrorCode.NO_BORROWING_CAPACITY,
+    ],
+    ["Token DOGE not supported", ToolErrorCode.UNSUPPORTED_TOKEN],
+    ["execution reverted: 26", ToolErrorCode.EXECUTION_REVERTED],
+  ])("classifies %p by its message", (message, code) => {
+    expect(toToolError(new BadRequestException(message)).code).toBe(code);
+  });
+
+  it("reports failed calls to other APIs as upstream errors", () => {
+    const error = Object.assign(new Error("Request failed with status 502"), {
+      isAxiosError: true,
+    });
+
+    expect(toToolError(error).code).toBe(ToolErrorCode.UPSTREAM_ERROR);
+  });
+
+  it("reports other HTTP exceptions as invalid requests", () => {
+    expect(toToolError(new BadRequestException("Invalid asset"))).toEqual({
+      code: ToolErrorCode.INVALID_REQUEST,
+      message: "Invalid asset",
+    });
+  });
+
+  it("falls back to a generic failure for anything else", () => {
+    expect(toToolError("boom")).toEqual({
+      code: ToolErrorCode.EXECUTION_FAILED,
+      message: "boom",
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { HttpException } from "@nestjs/common";
+import type { ExecutionProgress } from "../common/interfaces/execution-options.interface";
+
+/**
+ * Machine-readable codes reported in failed tool results
+ */
+export const ToolErrorCode = {
+  INSUFFICIENT_BALANCE: "INSUFFICIENT_BALANCE",
+  INSUFFICIENT_GAS_FUNDS: "INSUFFICIENT_GAS_FUNDS",
+  NO_BORROWING_CAPACITY: "NO_BORROWING_CAPACITY",
+  UNSUPPORTED_TOKEN: "UNSUPPORTED_TOKEN",
+  EXECUTION_REVERTED: "EXECUTION_REVERTED",
+  NETWORK_ERROR: "NETWORK_ERROR",
+  UPSTREAM_ERROR: "UPSTREAM_ERROR",
+  INVALID_REQUEST: "INVALID_REQUEST",
+  EXECUTION_FAILED: "EXECUTION_FAILED",
+  CANCELLED: "CANCELLED",
+} as const;
+
+export type ToolErrorCode = (typeof ToolErrorCode)[keyof typeof ToolErrorCode];
+
+export interface ToolError {
+  code: ToolErrorCode;
+  message: string;
+  // Steps whose transactions landed before the run was cancelled
+  completedSteps?: ExecutionProgress[];
+}
+
+/**
+ * Failure with an explicit code; anything else thrown by a tool is
+ * classified by toToolError
+ */
+export class ToolExecutionError extends Error {
+  constructor(
+    readonly code: ToolErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = ToolExecutionError.name;
+  }
+}
+
+// ethers v5 error codes
+const REVERT_CODES = ["CALL_EXCEPTION", "UNPREDICTABLE_GAS_LIMIT"];
+const NETWORK_CODES = ["NETWORK_ERROR", "SERVER_ERROR", "TIMEOUT"];
+
+export function toToolError(error: any): ToolError {
+  const message: string = error?.reason || error?.message || String(error);
+
+  if (error instanceof ToolExecutionError) {
+    return { code: error.code, message };
+  }
+  if (error?.code === "INSUFFICIENT_FUNDS") {
+    return { code: ToolErrorCode.INSUFFICIENT_GAS_FUNDS, message };
+  }
+  if (REVERT_CODES.includes(error?.code) || /revert/i.test(message)) {
+    return { code: ToolErrorCode.EXECUTION_REVERTED, message };
+  }
+  if (NETWORK_CODES.includes(error?.code)) {
+    return { code: ToolErrorCode.NETWORK_ERROR, message };
+  }
+  if (/insufficient .*balance/i.test(message)) {
+    return { code: ToolErrorCode.INSUFFICIENT_BALANCE, message };
+  }
+  if (/no borrowing capacity/i.test(message)) {
+    return { code: ToolErrorCode.NO_BORROWING_CAPACITY, message };
+  }
+  if (/token .* not supported/i.test(message)) {
+    return { code: ToolErrorCode.UNSUPPORTED_TOKEN, message };
+  }
+  if (error?.isAxiosError) {
+    return { code: ToolErrorCode.UPSTREAM_ERROR, message };
+  }
+  if (error instanceof HttpException) {
+    return { code: ToolErrorCode.INVALID_REQUEST, message };
+  }
+  return { code: ToolErrorCode.EXECUTION_FAILED, message };
+}
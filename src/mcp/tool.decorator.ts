@@ -0,0 +1,44 @@
+import { SetMetadata } from "@nestjs/common";
+import type { Type } from "@nestjs/common";
+import type { AuthScope } from "../auth/auth.service";
+
+export const MCP_TOOL_METADATA = "mcp:tool";
+
+/**
+ * Hints about a tool's side effects, reported to clients as-is
+ */
+export interface ToolAnnotations {
+  // Does not modify any state
+  readOnlyHint: boolean;
+  // May cause changes that are hard to undo, e.g. spending funds
+  destructiveHint: boolean;
+  // Repeating a call with the same arguments has no further effect
+  idempotentHint: boolean;
+  // Talks to the chain or other external systems
+  openWorldHint: boolean;
+}
+
+export interface ToolOptions {
+  name: string;
+  description: string;
+  // DTO describing the arguments; its input schema is generated from it
+  input?: Type<unknown>;
+  // DTO describing the result; reported as the tool's outputSchema. The
+  // method must then resolve to a plain object of that shape.
+  output?: Type<unknown>;
+  // Tools without readOnlyHint are hidden by the readonly profile
+  annotations: ToolAnnotations;
+  // Scope a caller needs; defaults to "read" for read-only tools and
+  // "execute" for the rest
+  scope?: AuthScope;
+}
+
+/**
+ * Expose a provider method as an MCP tool
+ *
+ * The method receives the tool arguments as its first parameter. Any
+ * provider in the application can declare tools; they are collected by
+ * McpToolRegistry at startup.
+ */
+export const Tool = (options: ToolOptions) =>
+  SetMetadata(MCP_TOOL_METADATA, options);
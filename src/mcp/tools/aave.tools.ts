@@ -0,0 +1,191 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { AaveService } from "../../aave/aave.service";
+import { SwapService } from "../../swap/swap.service";
+import { Tool } from "../tool.decorator";
+import {
+  StakeDto,
+  WithdrawDto,
+  BorrowDto,
+  RepayDto,
+} from "../../common/dto/stake.dto";
+import { UserAddressDto } from "../../common/dto/account.dto";
+import {
+  ReserveListDto,
+  StrategyListDto,
+  UserAccountData,
+  UserPositionListDto,
+} from "../../common/dto/aave-result.dto";
+import { OperationResultDto } from "../../common/dto/operation-result.dto";
+import type { ExecutionOptions } from "../../common/interfaces/execution-options.interface";
+
+@Injectable()
+export class AaveTools {
+  private readonly logger = new Logger(AaveTools.name);
+
+  constructor(
+    private readonly aaveService: AaveService,
+    private readonly swapService: SwapService,
+  ) {}
+
+  @Tool({
+    name: "aave_stake",
+    description: "Stake (supply) tokens to Aave V3 protocol on Base network",
+    input: StakeDto,
+    output: OperationResultDto,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  })
+  async stake(args: StakeDto, options?: ExecutionOptions) {
+    // First try regular stake
+    try {
+      return await this.aaveService.stake(args, options);
+    } catch (error) {
+      // Re-throw anything but an insufficient balance
+      if (!error.message || !error.message.includes("Insufficient")) {
+        throw error;
+      }
+    }
+
+    // If insufficient balance, try smart stake with auto-funding
+    this.logger.log(
+      `Insufficient balance for direct stake, trying smart stake with auto-funding...`,
+    );
+
+    const result = await this.swapService.smartStake(
+      {
+        asset: args.asset,
+        amount: args.amount,
+        userAddress: args.userAddress,
+        allowSwap: true,
+        maxSlippage: 2, // Allow 2% slippage for emergency swaps
+      },
+      options,
+    );
+
+    if (result.success || result.swap || result.stake) {
+      // Format result to match expected output
+      return {
+        ...result,
+        message: `Smart stake completed: swapped from available tokens to get ${args.amount} ${args.asset} and staked on Aave`,
+      };
+    }
+
+    return result;
+  }
+
+  @Tool({
+    name: "aave_withdraw",
+    description: "Withdraw staked tokens from Aave V3",
+    input: WithdrawDto,
+    output: OperationResultDto,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  })
+  withdraw(args: WithdrawDto, options?: ExecutionOptions) {
+    return this.aaveService.withdraw(args, options);
+  }
+
+  @Tool({
+    name: "aave_borrow",
+    description: "Borrow tokens from Aave V3 using collateral",
+    input: BorrowDto,
+    output: OperationResultDto,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  })
+  borrow(args: BorrowDto, options?: ExecutionOptions) {
+    return this.aaveService.borrow(args, options);
+  }
+
+  @Tool({
+    name: "aave_repay",
+    description: "Repay borrowed tokens to Aave V3",
+    input: RepayDto,
+    output: OperationResultDto,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  })
+  repay(args: RepayDto, options?: ExecutionOptions) {
+    return this.aaveService.repay(args, options);
+  }
+
+  @Tool({
+    name: "aave_get_reserves",
+    description: "Get all available reserves on Aave V3 with current APY rates",
+    output: ReserveListDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  })
+  async getReserves(): Promise<ReserveListDto> {
+    return { reserves: await this.aaveService.getReserves() };
+  }
+
+  @Tool({
+    name: "aave_get_strategies",
+    description: "Get best yield strategies on Aave V3",
+    output: StrategyListDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  })
+  async getStrategies(): Promise<StrategyListDto> {
+    return { strategies: await this.aaveService.getBestStrategies() };
+  }
+
+  @Tool({
+    name: "aave_get_user_positions",
+    description: "Get user positions on Aave V3",
+    input: UserAddressDto,
+    output: UserPositionListDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  })
+  async getUserPositions(args: UserAddressDto): Promise<UserPositionListDto> {
+    return {
+      positions: await this.aaveService.getUserPositions(args.userAddress),
+    };
+  }
+
+  @Tool({
+    name: "aave_get_user_account",
+    description: "Get user account summary including health factor",
+    input: UserAddressDto,
+    output: UserAccountData,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  })
+  getUserAccount(args: UserAddressDto) {
+    return this.aaveService.getUserAccountData(args.userAddress);
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from "@nestjs/common";
+import { AuditService } from "../../audit/audit.service";
+import { Tool } from "../tool.decorator";
+import { AuditQueryDto } from "../../common/dto/audit.dto";
+import { AuditLogDto } from "../../common/dto/audit-result.dto";
+import type { ExecutionOptions } from "../../common/interfaces/execution-options.interface";
+
+@Injectable()
+export class AuditTools {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Tool({
+    name: "audit_query",
+    description:
+      "Search the log of past tool calls by wallet address, tool name and time range",
+    input: AuditQueryDto,
+    output: AuditLogDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+  })
+  async queryAuditLog(
+    args: AuditQueryDto,
+    options?: ExecutionOptions,
+  ): Promise<AuditLogDto> {
+    return { entries: await this.auditService.query(args, options?.caller) };
+  }
+}
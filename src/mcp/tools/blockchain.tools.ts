@@ -0,0 +1,79 @@
+import { Injectable } from "@nestjs/common";
+import { BlockchainService } from "../../blockchain/blockchain.service";
+import { Tool } from "../tool.decorator";
+import { AddressDto, BalanceDto } from "../../common/dto/account.dto";
+import {
+  BalanceResultDto,
+  BalancesResultDto,
+  GasPriceDto,
+} from "../../common/dto/account-result.dto";
+
+@Injectable()
+export class BlockchainTools {
+  constructor(private readonly blockchainService: BlockchainService) {}
+
+  @Tool({
+    name: "get_balance",
+    description: "Get token balance for an address",
+    input: BalanceDto,
+    output: BalanceResultDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  })
+  async getBalance(args: BalanceDto): Promise<BalanceResultDto> {
+    // Handle ETH as native token (not ERC20); default to ETH if no token given
+    const token = args.token ?? "ETH";
+    const tokenAddress =
+      token.toUpperCase() === "ETH"
+        ? undefined
+        : this.blockchainService.getTokenAddress(token);
+
+    return {
+      address: args.address,
+      token,
+      balance: await this.blockchainService.getBalance(
+        args.address,
+        tokenAddress,
+      ),
+    };
+  }
+
+  @Tool({
+    name: "get_all_balances",
+    description:
+      "Get all token balances for an address (ETH + all configured tokens)",
+    input: AddressDto,
+    output: BalancesResultDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  })
+  async getAllBalances(args: AddressDto): Promise<BalancesResultDto> {
+    return {
+      address: args.address,
+      balances: await this.blockchainService.getAllBalances(args.address),
+    };
+  }
+
+  @Tool({
+    name: "get_gas_price",
+    description: "Get current gas price on Base network",
+    output: GasPriceDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  })
+  async getGasPrice(): Promise<GasPriceDto> {
+    return { gasPrice: await this.blockchainService.getGasPrice() };
+  }
+}
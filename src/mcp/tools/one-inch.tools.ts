@@ -0,0 +1,59 @@
+import { Injectable } from "@nestjs/common";
+import { OneInchService } from "../../one-inch/one-inch.service";
+import { Tool } from "../tool.decorator";
+import { QuoteDto, ExecuteSwapDto } from "../../common/dto/swap.dto";
+import { OneInchQuoteDto } from "../../common/dto/swap-result.dto";
+import { OperationResultDto } from "../../common/dto/operation-result.dto";
+import type { ExecutionOptions } from "../../common/interfaces/execution-options.interface";
+
+@Injectable()
+export class OneInchTools {
+  constructor(private readonly oneInchService: OneInchService) {}
+
+  @Tool({
+    name: "oneinch_quote",
+    description:
+      "Get swap quote from 1inch DEX aggregator (best rates across multiple DEXs)",
+    input: QuoteDto,
+    output: OneInchQuoteDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  })
+  quote(args: QuoteDto) {
+    return this.oneInchService.getQuote({
+      fromToken: args.fromToken,
+      toToken: args.toToken,
+      amount: args.amount,
+    });
+  }
+
+  @Tool({
+    name: "oneinch_swap",
+    description:
+      "Execute swap via 1inch DEX aggregator with best route optimization",
+    input: ExecuteSwapDto,
+    output: OperationResultDto,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  })
+  swap(args: ExecuteSwapDto, options?: ExecutionOptions) {
+    return this.oneInchService.executeSwap(
+      {
+        fromToken: args.fromToken,
+        toToken: args.toToken,
+        amount: args.amount,
+        userAddress: args.userAddress,
+        slippage: args.slippage || 1,
+      },
+      options,
+    );
+  }
+}
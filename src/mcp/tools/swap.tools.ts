@@ -0,0 +1,161 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { SwapService } from "../../swap/swap.service";
+import { AdvancedSwapService } from "../../swap/advanced-swap.service";
+import { BlockchainService } from "../../blockchain/blockchain.service";
+import { SmartDepositService } from "../../smart-deposit/smart-deposit.service";
+import { Tool } from "../tool.decorator";
+import { QuoteDto, ExecuteSwapDto } from "../../common/dto/swap.dto";
+import { AutoStakeDto, AutoFundStakeDto } from "../../common/dto/stake.dto";
+import { SmartDepositDto } from "../../common/dto/deposit.dto";
+import { SwapQuoteDto } from "../../common/dto/swap-result.dto";
+import { OperationResultDto } from "../../common/dto/operation-result.dto";
+import type { ExecutionOptions } from "../../common/interfaces/execution-options.interface";
+
+@Injectable()
+export class SwapTools {
+  private readonly logger = new Logger(SwapTools.name);
+
+  constructor(
+    private readonly swapService: SwapService,
+    private readonly advancedSwapService: AdvancedSwapService,
+    private readonly blockchainService: BlockchainService,
+    private readonly smartDepositService: SmartDepositService,
+  ) {}
+
+  @Tool({
+    name: "swap_quote",
+    description: "Get swap quote from Uniswap V3 on Base network",
+    input: QuoteDto,
+    output: SwapQuoteDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+  })
+  quote(args: QuoteDto) {
+    return this.swapService.getQuote(args);
+  }
+
+  @Tool({
+    name: "swap_execute",
+    description: "Execute token swap on Uniswap V3",
+    input: ExecuteSwapDto,
+    output: OperationResultDto,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  })
+  async execute(args: ExecuteSwapDto, options?: ExecutionOptions) {
+    const swapArgs = {
+      fromToken: args.fromToken,
+      toToken: args.toToken,
+      amount: args.amount,
+      userAddress: args.userAddress,
+      maxSlippage: args.slippage,
+    };
+
+    // Check if user has enough balance, if not use smart swap
+    try {
+      const balances = await this.blockchainService.getAllBalances(
+        args.userAddress,
+      );
+      const sourceBalance = parseFloat(
+        balances[args.fromToken] ||
+          balances[args.fromToken.toUpperCase()] ||
+          "0",
+      );
+      const requiredAmount = parseFloat(args.amount);
+
+      if (sourceBalance >= requiredAmount) {
+        return await this.swapService.swap(swapArgs, options);
+      }
+
+      this.logger.log(
+        `Insufficient ${args.fromToken} balance (${sourceBalance} < ${requiredAmount}), trying smart swap`,
+      );
+
+      // Try to use other tokens or ETH to get the required amount
+      return await this.advancedSwapService.smartStakeWithAutoFunding(
+        {
+          sourceToken: args.fromToken,
+          targetToken: args.toToken,
+          sourceAmount: args.amount,
+          userAddress: args.userAddress,
+          useEthForShortfall: true,
+        },
+        options,
+      );
+    } catch (error) {
+      // If smart swap fails, try regular swap
+      this.logger.warn(
+        `Smart swap failed: ${error.message}, trying regular swap`,
+      );
+      return await this.swapService.swap(swapArgs, options);
+    }
+  }
+
+  @Tool({
+    name: "smart_stake",
+    description:
+      "Smart stake with automatic token swap if needed. Will swap tokens first if user does not have the target asset",
+    input: AutoStakeDto,
+    output: OperationResultDto,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  })
+  smartStake(args: AutoStakeDto, options?: ExecutionOptions) {
+    return this.swapService.autoStakeWithBestAPY(args, options);
+  }
+
+  @Tool({
+    name: "smart_deposit_auto",
+    description:
+      "Automatic deposit from any token or ETH. Will find the best swap route and deposit to Aave",
+    input: SmartDepositDto,
+    output: OperationResultDto,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  })
+  smartDeposit(args: SmartDepositDto, options?: ExecutionOptions) {
+    return this.smartDepositService.smartDeposit(args, options);
+  }
+
+  @Tool({
+    name: "smart_stake_auto_fund",
+    description:
+      "Smart stake with automatic ETH funding if not enough source token. Will use ETH to cover shortfalls, then swap to target token and stake",
+    input: AutoFundStakeDto,
+    output: OperationResultDto,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+  })
+  smartStakeAutoFund(args: AutoFundStakeDto, options?: ExecutionOptions) {
+    return this.advancedSwapService.smartStakeWithAutoFunding(
+      {
+        sourceToken: args.sourceToken,
+        targetToken: args.targetToken,
+        sourceAmount: args.sourceAmount,
+        userAddress: args.userAddress,
+        useEthForShortfall: args.useEthForShortfall ?? true,
+      },
+      options,
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { Injectable } from "@nestjs/common";
+import { TransactionBuilderService } from "../../transaction-builder/transaction-builder.service";
+import { Tool } from "../tool.decorator";
+import {
+  PrepareSupplyDto,
+  PrepareSwapDto,
+  PrepareTypedDataDto,
+  SimulateTransactionDto,
+  BroadcastTransactionDto,
+} from "../../common/dto/transaction.dto";
+import {
+  PreparedTransactionDto,
+  TypedDataDto,
+  SimulationResultDto,
+  BroadcastResultDto,
+} from "../../common/dto/transaction-result.dto";
+import type { ExecutionOptions } from "../../common/interfaces/execution-options.interface";
+
+@Injectable()
+export class TransactionBuilderTools {
+  constructor(private readonly transactionBuilder: TransactionBuilderService) {}
+
+  @Tool({
+    name: "prepare_aave_supply",
+    description: "Prepare transaction for Aave deposit (for user signature)",
+    input: PrepareSupplyDto,
+    output: PreparedTransactionDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    scope: "prepare",
+  })
+  prepareAaveSupply(args: PrepareSupplyDto) {
+    return this.transactionBuilder.prepareAaveSupply(args);
+  }
+
+  @Tool({
+    name: "prepare_swap",
+    description: "Prepare swap transaction (for user signature)",
+    input: PrepareSwapDto,
+    output: PreparedTransactionDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    scope: "prepare",
+  })
+  prepareSwap(args: PrepareSwapDto) {
+    return this.transactionBuilder.prepareSwap(args);
+  }
+
+  @Tool({
+    name: "prepare_typed_data",
+    description: "Prepare EIP-712 typed data for signature",
+    input: PrepareTypedDataDto,
+    output: TypedDataDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    scope: "prepare",
+  })
+  prepareTypedData(args: PrepareTypedDataDto) {
+    return this.transactionBuilder.prepareTypedData(args);
+  }
+
+  @Tool({
+    name: "simulate_transaction",
+    description: "Simulate transaction execution",
+    input: SimulateTransactionDto,
+    output: SimulationResultDto,
+    annotations: {
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    scope: "prepare",
+  })
+  simulateTransaction(args: SimulateTransactionDto) {
+    return this.transactionBuilder.simulateTransaction(
+      args.transaction,
+      args.from,
+    );
+  }
+
+  @Tool({
+    name: "broadcast_transaction",
+    description: "Send signed transaction to blockchain",
+    input: BroadcastTransactionDto,
+    output: BroadcastResultDto,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    // Relays a transaction the client signed; the server wallet is unused
+    scope: "prepare",
+  })
+  broadcastTransaction(
+    args: BroadcastTransactionDto,
+    options?: ExecutionOptions,
+  ) {
+    return this.transactionBuilder.broadcastTransaction(args.signedTx, options);
+  }
+}
@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { ethers } from 'ethers';
 import axios, { AxiosInstance } from 'axios';
 import { BlockchainService } from '../blockchain/blockchain.service';
+import type { ExecutionOptions } from '../common/interfaces/execution-options.interface';
 
 export interface OneInchQuote {
   fromToken: string;
@@ -128,7 +129,9 @@ export class OneInchService {
     amount: string;
     userAddress: string;
     slippage?: number;
-  }): Promise<any> {
+  }, options: ExecutionOptions = {}): Promise<any> {
+    const { onProgress, signal } = options;
+
     try {
       const { fromToken, toToken, amount, userAddress, slippage = 1 } = params;
 
@@ -149,7 +152,7 @@ export class OneInchService {
       const amountWei = ethers.utils.parseUnits(amount, fromDecimals).toString();
 
       // Check if auto-execute is enabled
-      if (!this.blockchainService.isAutoExecuteEnabled()) {
+      if (!this.blockchainService.isAutoExecuteEnabled(options)) {
         // Just get quote for simulation
         const quote = await this.getQuote({ fromToken, toToken, amount, userAddress });
         return {
@@ -189,6 +192,10 @@ export class OneInchService {
       });
 
       const swapData = response.data;
+      onProgress?.({
+        step: 'quote',
+        message: `1inch quote: ${amount} ${fromToken} -> ${toToken}`,
+      });
 
       // Check and approve tokens if needed (not needed for ETH)
       if (fromToken.toUpperCase() !== 'ETH' && fromAddress !== '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE') {
@@ -196,7 +203,8 @@ export class OneInchService {
           fromAddress,
           amountWei,
           swapData.tx.to, // 1inch router address
-          fromWallet // Use server wallet for approval
+          fromWallet, // Use server wallet for approval
+          options,
         );
       }
 
@@ -210,11 +218,22 @@ export class OneInchService {
         gasLimit: ethers.BigNumber.from(swapData.tx.gas).mul(120).div(100), // Add 20% buffer
       };
 
-      const signer = this.blockchainService.getSigner(fromWallet);
+      const signer = this.blockchainService.getSigner(fromWallet, options);
+      signal?.throwIfAborted();
       const transaction = await signer.sendTransaction(tx);
+      onProgress?.({
+        step: 'swap_sent',
+        message: `1inch swap of ${amount} ${fromToken} -> ${toToken} sent`,
+        transactionHash: transaction.hash,
+      });
       const receipt = await transaction.wait();
 
       this.logger.log(`Swap successful: ${transaction.hash}`);
+      onProgress?.({
+        step: 'swap_confirmed',
+        message: `1inch swap of ${amount} ${fromToken} -> ${toToken} confirmed`,
+        transactionHash: transaction.hash,
+      });
 
       // Format output amount
       const toDecimals = toToken.toUpperCase() === 'ETH'
@@ -252,7 +271,8 @@ export class OneInchService {
     tokenAddress: string,
     amount: string,
     spender: string,
-    walletAddress: string
+    walletAddress: string,
+    options: ExecutionOptions = {},
   ): Promise<void> {
     const tokenContract = new ethers.Contract(
       tokenAddress,
@@ -266,16 +286,22 @@ export class OneInchService {
     if (currentAllowance.lt(amount)) {
       this.logger.log(`Approving ${tokenAddress} for 1inch Router...`);
       // Use server wallet for signing approval
-      const wallet = this.blockchainService.getWallet();
-      if (!wallet) {
+      if (!this.blockchainService.getWallet()) {
         throw new Error('No wallet configured for approval');
       }
-      const approveTx = await tokenContract.connect(wallet).approve(
+      const signer = this.blockchainService.getSigner(walletAddress, options);
+      options.signal?.throwIfAborted();
+      const approveTx = await tokenContract.connect(signer).approve(
         spender,
         ethers.constants.MaxUint256
       );
       await approveTx.wait();
       this.logger.log(`Approval transaction: ${approveTx.hash}`);
+      options.onProgress?.({
+        step: 'approval',
+        message: 'Approved token for 1inch Router',
+        transactionHash: approveTx.hash,
+      });
     } else {
       this.logger.log('Token already approved for 1inch');
     }
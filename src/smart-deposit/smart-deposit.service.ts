@@ -3,7 +3,8 @@ import { ethers } from 'ethers';
 import { BlockchainService } from '../blockchain/blockchain.service';
 import { SwapService } from '../swap/swap.service';
 import { AaveService } from '../aave/aave.service';
-import { ConfigService } from '@nestjs/config';
+import { SUPPORTED_ASSETS } from '../common/constants/assets';
+import type { ExecutionOptions } from '../common/interfaces/execution-options.interface';
 
 export interface SmartDepositParams {
   targetAmount: string; // Amount in USD to deposit
@@ -30,13 +31,15 @@ export class SmartDepositService {
     private readonly blockchainService: BlockchainService,
     private readonly swapService: SwapService,
     private readonly aaveService: AaveService,
-    private readonly configService: ConfigService,
   ) {}
 
   /**
    * Smart deposit with automatic source detection and swap
    */
-  async smartDeposit(params: SmartDepositParams): Promise<SmartDepositResult> {
+  async smartDeposit(
+    params: SmartDepositParams,
+    options: ExecutionOptions = {},
+  ): Promise<SmartDepositResult> {
     const {
       targetAmount,
       targetAsset = 'USDC',
@@ -49,7 +52,7 @@ export class SmartDepositService {
     try {
       // Get wallet if available
       const wallet = this.blockchainService.getWallet();
-      const autoExecute = this.configService.get('AUTO_EXECUTE') === 'true';
+      const autoExecute = this.blockchainService.isAutoExecuteEnabled(options);
 
       if (!autoExecute || !wallet) {
         return {
@@ -65,11 +68,20 @@ export class SmartDepositService {
       // Check if we have enough target asset
       const targetBalance = balances[targetAsset] || 0;
       const targetAmountNum = parseFloat(targetAmount);
+      options.onProgress?.({
+        step: 'balance_check',
+        message: `${targetAsset} balance: ${targetBalance}, need ${targetAmount}`,
+      });
 
       if (targetBalance >= targetAmountNum) {
         // Direct deposit
         this.logger.log(`Direct deposit: sufficient ${targetAsset} balance`);
-        return await this.directDeposit(targetAsset, targetAmount, userAddress);
+        return await this.directDeposit(
+          targetAsset,
+          targetAmount,
+          userAddress,
+          options,
+        );
       }
 
       // Find best source for swap
@@ -87,6 +99,10 @@ export class SmartDepositService {
       }
 
       this.logger.log(`Will swap ${sourceAsset.asset} to ${targetAsset}`);
+      options.onProgress?.({
+        step: 'quote',
+        message: `Best source: ${sourceAsset.amount} ${sourceAsset.asset} -> ${targetAmount} ${targetAsset}`,
+      });
 
       // Execute swap
       const swapResult = await this.executeSmartSwap(
@@ -95,6 +111,7 @@ export class SmartDepositService {
         targetAmountNum,
         userAddress,
         maxSlippage,
+        options,
       );
 
       if (!swapResult.success) {
@@ -109,6 +126,7 @@ export class SmartDepositService {
         targetAsset,
         targetAmount,
         userAddress,
+        options,
       );
 
       return {
@@ -138,8 +156,7 @@ export class SmartDepositService {
     balances['ETH'] = parseFloat(ethers.utils.formatEther(ethBalanceBN));
 
     // Check token balances
-    const tokens = ['USDC', 'USDbC', 'USDT', 'DAI', 'GHO', 'EURC', 'WETH', 'cbETH', 'wstETH', 'weETH', 'ezETH', 'wrsETH', 'cbBTC', 'LBTC', 'AAVE'];
-    for (const token of tokens) {
+    for (const token of SUPPORTED_ASSETS) {
       try {
         const balance = await this.blockchainService.getTokenBalance(address, token);
         const tokenAddress = this.blockchainService.getTokenAddress(token);
@@ -217,25 +234,32 @@ export class SmartDepositService {
     targetAmount: number,
     userAddress: string,
     maxSlippage: number,
+    options: ExecutionOptions,
   ): Promise<any> {
     try {
       // Handle ETH -> need to wrap first or use direct swap
       if (source.asset === 'ETH') {
-        return await this.swapService.swap({
-          fromToken: 'WETH', // Uniswap uses WETH
-          toToken: targetAsset,
-          amount: targetAmount.toString(),
-          userAddress: userAddress,
-        });
+        return await this.swapService.swap(
+          {
+            fromToken: 'WETH', // Uniswap uses WETH
+            toToken: targetAsset,
+            amount: targetAmount.toString(),
+            userAddress: userAddress,
+          },
+          options,
+        );
       }
 
       // Regular token swap
-      return await this.swapService.swap({
-        fromToken: source.asset,
-        toToken: targetAsset,
-        amount: targetAmount.toString(),
-        userAddress: userAddress,
-      });
+      return await this.swapService.swap(
+        {
+          fromToken: source.asset,
+          toToken: targetAsset,
+          amount: targetAmount.toString(),
+          userAddress: userAddress,
+        },
+        options,
+      );
     } catch (error) {
       this.logger.error('Swap execution failed:', error);
       return {
@@ -252,13 +276,17 @@ export class SmartDepositService {
     asset: string,
     amount: string,
     userAddress: string,
+    options: ExecutionOptions,
   ): Promise<SmartDepositResult> {
     try {
-      const result = await this.aaveService.stake({
-        asset,
-        amount,
-        userAddress,
-      });
+      const result = await this.aaveService.stake(
+        {
+          asset,
+          amount,
+          userAddress,
+        },
+        options,
+      );
 
       return {
         success: result.success || false,
@@ -0,0 +1,108 @@
+import { NestFactory } from "@nestjs/core";
+import type { LogLevel } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { AppModule } from "./app.module";
+import { McpService } from "./mcp/mcp.service";
+import { McpSessionService } from "./mcp/mcp-session.service";
+import { McpLogger, logLevelsFrom } from "./mcp/mcp-logger";
+import { McpLoggingService } from "./mcp/mcp-logging.service";
+
+/**
+ * Nest logger that never touches stdout, which belongs to the protocol
+ */
+class StderrLogger extends McpLogger {
+  protected printMessages(
+    messages: unknown[],
+    context?: string,
+    logLevel?: LogLevel,
+    writeStreamType?: "stdout" | "stderr",
+    errorStack?: unknown,
+  ) {
+    super.printMessages(messages, context, logLevel, "stderr", errorStack);
+  }
+}
+
+async function bootstrap() {
+  // Third-party code (ethers among others) may still print with console.*
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+  console.warn = console.error;
+
+  const logger = new StderrLogger();
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger,
+    // Let startup errors reach the handler below instead of exiting here
+    abortOnError: false,
+  });
+
+  logger.setLogLevels(
+    logLevelsFrom(app.get(ConfigService).get<string>("logging.level", "info")),
+  );
+  logger.bridgeTo(app.get(McpLoggingService));
+
+  const mcpService = app.get(McpService);
+  const sessionService = app.get(McpSessionService);
+  const transport = new StdioServerTransport();
+
+  const session = sessionService.create("stdio", (message) => {
+    const messages = Array.isArray(message) ? message : [message];
+    for (const entry of messages) {
+      transport.send(entry as JSONRPCMessage).catch((error: Error) => {
+        console.error(`Failed to write to stdout: ${error.message}`);
+      });
+    }
+  });
+
+  transport.onmessage = (message) => {
+    mcpService
+      .handleMessage(message, { session })
+      .then((reply) => {
+        if (reply) {
+          session.send?.(reply);
+        }
+      })
+      .catch((error: Error) => {
+        console.error(`Failed to handle message: ${error.message}`);
+        // Only requests expect an answer
+        if ("method" in message && "id" in message) {
+          session.send?.({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: { code: -32603, message: "Internal error" },
+          });
+        }
+      });
+  };
+
+  // The transport drops lines it cannot parse or that are not JSON-RPC
+  // messages; tell the client instead of leaving it waiting
+  transport.onerror = (error) => {
+    console.error(`stdio transport error: ${error.message}`);
+    session.send?.({
+      jsonrpc: "2.0",
+      id: null,
+      error:
+        error instanceof SyntaxError
+          ? { code: -32700, message: "Parse error", data: error.message }
+          : { code: -32600, message: "Invalid Request" },
+    });
+  };
+
+  transport.onclose = () => {
+    sessionService.remove(session.id);
+    void app.close();
+  };
+
+  await transport.start();
+
+  console.error("Aave MCP Server is running on stdio");
+}
+
+// Startup failures, e.g. an RPC on the wrong chain, end the process
+bootstrap().catch((error: Error) => {
+  console.error(`Failed to start: ${error.message}`);
+  process.exitCode = 1;
+});
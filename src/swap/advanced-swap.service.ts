@@ -4,6 +4,7 @@ import { BlockchainService } from "../blockchain/blockchain.service";
 import { OneInchService } from "../one-inch/one-inch.service";
 import { AaveService } from "../aave/aave.service";
 import { SwapService } from "./swap.service";
+import type { ExecutionOptions } from "../common/interfaces/execution-options.interface";
 
 @Injectable()
 export class AdvancedSwapService {
@@ -30,7 +31,7 @@ export class AdvancedSwapService {
     sourceAmount: string;     // Amount of source token to use
     userAddress: string;
     useEthForShortfall?: boolean;  // Use ETH to cover any shortfall
-  }): Promise<any> {
+  }, options: ExecutionOptions = {}): Promise<any> {
     const { 
       sourceToken, 
       targetToken, 
@@ -38,6 +39,7 @@ export class AdvancedSwapService {
       userAddress, 
       useEthForShortfall = true 
     } = params;
+    const { onProgress } = options;
 
     try {
       this.logger.log(`Smart stake request: ${sourceAmount} ${sourceToken} -> ${targetToken}`);
@@ -49,6 +51,10 @@ export class AdvancedSwapService {
       const requiredAmount = parseFloat(sourceAmount);
       
       this.logger.log(`User balances: ${sourceToken}: ${sourceBalance}, ETH: ${ethBalance}`);
+      onProgress?.({
+        step: "balance_check",
+        message: `${sourceToken} balance: ${sourceBalance}, ETH balance: ${ethBalance}, need ${sourceAmount} ${sourceToken}`,
+      });
       
       // Variables for ETH swap if needed
       let ethSwapResult: any = null;
@@ -122,9 +128,13 @@ export class AdvancedSwapService {
         }
         
         this.logger.log(`Quote: ${ethNeeded} ETH -> ${ethSwapQuote.amountOut} ${sourceToken}`);
+        onProgress?.({
+          step: "quote",
+          message: `Shortfall quote: ${ethNeeded} ETH -> ~${ethSwapQuote.amountOut} ${sourceToken}`,
+        });
         
         // Check if auto-execute is enabled
-        if (!this.blockchainService.isAutoExecuteEnabled()) {
+        if (!this.blockchainService.isAutoExecuteEnabled(options)) {
           return {
             success: true,
             simulation: true,
@@ -154,13 +164,16 @@ export class AdvancedSwapService {
         
         try {
           // Use Uniswap for ETH swaps
-          ethSwapResult = await this.swapService.swap({
-            fromToken: "ETH",
-            toToken: sourceToken,
-            amount: ethNeeded,
-            userAddress,
-            maxSlippage: 2,
-          });
+          ethSwapResult = await this.swapService.swap(
+            {
+              fromToken: "ETH",
+              toToken: sourceToken,
+              amount: ethNeeded,
+              userAddress,
+              maxSlippage: 2,
+            },
+            options,
+          );
         } catch (swapError) {
           this.logger.error(`Uniswap swap failed: ${swapError.message}`);
           
@@ -214,26 +227,37 @@ export class AdvancedSwapService {
         this.logger.log(`Uniswap quote: ${sourceAmount} ${sourceToken} -> ${mainSwapQuote.amountOut} ${targetToken}`);
       }
       
+      onProgress?.({
+        step: "quote",
+        message: `${use1inch ? "1inch" : "Uniswap"} quote: ${sourceAmount} ${sourceToken} -> ~${mainSwapQuote.amountOut} ${targetToken}`,
+      });
+
       // Execute main swap
       this.logger.log(`Executing main swap via ${use1inch ? '1inch' : 'Uniswap'}: ${sourceAmount} ${sourceToken} -> ${targetToken}`);
       
       let mainSwapResult;
       if (use1inch) {
-        mainSwapResult = await this.oneInchService.executeSwap({
-          fromToken: sourceToken,
-          toToken: targetToken,
-          amount: sourceAmount,
-          userAddress,
-          slippage: 1,
-        });
+        mainSwapResult = await this.oneInchService.executeSwap(
+          {
+            fromToken: sourceToken,
+            toToken: targetToken,
+            amount: sourceAmount,
+            userAddress,
+            slippage: 1,
+          },
+          options,
+        );
       } else {
-        mainSwapResult = await this.swapService.swap({
-          fromToken: sourceToken,
-          toToken: targetToken,
-          amount: sourceAmount,
-          userAddress,
-          maxSlippage: 1,
-        });
+        mainSwapResult = await this.swapService.swap(
+          {
+            fromToken: sourceToken,
+            toToken: targetToken,
+            amount: sourceAmount,
+            userAddress,
+            maxSlippage: 1,
+          },
+          options,
+        );
       }
       
       if (mainSwapResult.orderUid) {
@@ -244,11 +268,14 @@ export class AdvancedSwapService {
       
       // Step 4: Stake the target token
       this.logger.log(`Staking ${mainSwapQuote.amountOut} ${targetToken} on Aave`);
-      const stakeResult = await this.aaveService.stake({
-        asset: targetToken,
-        amount: mainSwapQuote.amountOut,
-        userAddress,
-      });
+      const stakeResult = await this.aaveService.stake(
+        {
+          asset: targetToken,
+          amount: mainSwapQuote.amountOut,
+          userAddress,
+        },
+        options,
+      );
       
       return {
         success: true,
@@ -6,6 +6,10 @@ import { SwapDto, QuoteDto } from "../common/dto/swap.dto";
 import { SmartStakeDto } from "../common/dto/stake.dto";
 import { AaveService } from "../aave/aave.service";
 import { OneInchService } from "../one-inch/one-inch.service";
+import type {
+  ExecutionConfirmation,
+  ExecutionOptions,
+} from "../common/interfaces/execution-options.interface";
 
 // Uniswap V3 Router ABI (minimal)
 const UNISWAP_ROUTER_ABI = [
@@ -344,7 +348,7 @@ export class SwapService {
     return bestMultiHopQuote;
   }
 
-  async swap(swapDto: SwapDto): Promise<any> {
+  async swap(swapDto: SwapDto, options: ExecutionOptions = {}): Promise<any> {
     const {
       fromToken,
       toToken,
@@ -352,20 +356,33 @@ export class SwapService {
       userAddress,
       maxSlippage = 1,
     } = swapDto;
+    const { onProgress, signal } = options;
 
     try {
+      signal?.throwIfAborted();
+      if (options.confirm && this.blockchainService.isAutoExecuteEnabled(options)) {
+        await options.confirm(
+          await this.describeSwap(fromToken, toToken, amount, maxSlippage),
+        );
+      }
+
       // Try 1inch first (better execution and DEX aggregation)
       try {
-        const oneInchResult = await this.oneInchService.executeSwap({
-          fromToken,
-          toToken,
-          amount,
-          userAddress,
-          slippage: maxSlippage,
-        });
+        const oneInchResult = await this.oneInchService.executeSwap(
+          {
+            fromToken,
+            toToken,
+            amount,
+            userAddress,
+            slippage: maxSlippage,
+          },
+          options,
+        );
         
         return oneInchResult;
       } catch (oneInchError) {
+        // A cancelled run must not fall through to another route
+        signal?.throwIfAborted();
         this.logger.warn(`1inch swap execution failed, falling back to Uniswap: ${oneInchError.message}`);
       }
 
@@ -386,6 +403,10 @@ export class SwapService {
 
       // Get quote first
       const quote = await this.getQuote({ fromToken, toToken, amount });
+      onProgress?.({
+        step: "quote",
+        message: `Uniswap quote: ${amount} ${fromToken} -> ~${quote.amountOut} ${toToken}`,
+      });
       const amountOutMin = ethers.utils.parseUnits(
         ((parseFloat(quote.amountOut) * (100 - maxSlippage)) / 100).toFixed(
           toDecimals,
@@ -409,14 +430,15 @@ export class SwapService {
         balance = await tokenContract.balanceOf(userAddress);
       }
 
-      if (balance.lt(amountIn)) {
+      // A dry run's earlier planned swaps have not moved any funds yet
+      if (balance.lt(amountIn) && !options.dryRun?.length) {
         throw new BadRequestException(
           `Insufficient ${fromToken} balance. Have: ${ethers.utils.formatUnits(balance, fromDecimals)}, Need: ${amount}`,
         );
       }
 
       // Check if auto-execute is enabled
-      if (!this.blockchainService.isAutoExecuteEnabled()) {
+      if (!this.blockchainService.isAutoExecuteEnabled(options)) {
         return {
           success: true,
           simulation: true,
@@ -434,7 +456,7 @@ export class SwapService {
         };
       }
 
-      const signer = this.blockchainService.getSigner(userAddress);
+      const signer = this.blockchainService.getSigner(userAddress, options);
       const routerAddress = this.configService.get<string>(
         "contracts.uniswapRouter",
       );
@@ -452,11 +474,17 @@ export class SwapService {
         );
         if (allowance.lt(amountIn)) {
           this.logger.log(`Approving ${fromToken} for Uniswap Router...`);
+          signal?.throwIfAborted();
           const approveTx = await tokenContract
             .connect(signer)
             .approve(routerAddress, ethers.constants.MaxUint256);
           await approveTx.wait();
           this.logger.log(`Approval transaction: ${approveTx.hash}`);
+          onProgress?.({
+            step: "approval",
+            message: `Approved ${fromToken} for Uniswap Router`,
+            transactionHash: approveTx.hash,
+          });
         }
       }
 
@@ -478,6 +506,7 @@ export class SwapService {
 
       // Execute swap
       this.logger.log(`Swapping ${amount} ${fromToken} for ${toToken}...`);
+      signal?.throwIfAborted();
       let swapTx;
       if (isFromETH) {
         // For ETH swaps, send value with transaction
@@ -490,9 +519,19 @@ export class SwapService {
           .connect(signer)
           .exactInputSingle(params);
       }
+      onProgress?.({
+        step: "swap_sent",
+        message: `Uniswap swap of ${amount} ${fromToken} -> ${toToken} sent`,
+        transactionHash: swapTx.hash,
+      });
       const receipt = await swapTx.wait();
 
       this.logger.log(`Swap successful: ${swapTx.hash}`);
+      onProgress?.({
+        step: "swap_confirmed",
+        message: `Uniswap swap of ${amount} ${fromToken} -> ${toToken} confirmed`,
+        transactionHash: swapTx.hash,
+      });
 
       return {
         success: true,
@@ -512,7 +551,45 @@ export class SwapService {
     }
   }
 
-  async smartStake(smartStakeDto: SmartStakeDto): Promise<any> {
+  /**
+   * Summarise a swap and its slippage bounds for confirmation
+   */
+  private async describeSwap(
+    fromToken: string,
+    toToken: string,
+    amount: string,
+    maxSlippage: number,
+  ): Promise<ExecutionConfirmation> {
+    const quote = await this.getQuote({ fromToken, toToken, amount });
+
+    let usdValue: number | undefined;
+    try {
+      const priceAsset = fromToken.toUpperCase() === "ETH" ? "WETH" : fromToken;
+      usdValue =
+        parseFloat(amount) *
+        (await this.aaveService.getAssetPriceUsd(priceAsset));
+    } catch (error) {
+      this.logger.warn(`Failed to price ${fromToken}: ${error.message}`);
+    }
+
+    return {
+      action: `Swap ${amount} ${fromToken} for ${toToken}`,
+      usdValue,
+      slippage: {
+        maxPercent: maxSlippage,
+        expectedAmountOut: quote.amountOut,
+        minAmountOut: (
+          (parseFloat(quote.amountOut) * (100 - maxSlippage)) /
+          100
+        ).toFixed(6),
+      },
+    };
+  }
+
+  async smartStake(
+    smartStakeDto: SmartStakeDto,
+    options: ExecutionOptions = {},
+  ): Promise<any> {
     const {
       asset,
       amount,
@@ -524,13 +601,16 @@ export class SwapService {
 
     // If targetAsset is specified, use the new auto-stake with best APY logic
     if (targetAsset) {
-      return this.autoStakeWithBestAPY({
-        targetAsset,
-        targetAmount: smartStakeDto.targetAmount || amount,
-        userAddress,
-        allowSwap,
-        maxSlippage,
-      });
+      return this.autoStakeWithBestAPY(
+        {
+          targetAsset,
+          targetAmount: smartStakeDto.targetAmount || amount,
+          userAddress,
+          allowSwap,
+          maxSlippage,
+        },
+        options,
+      );
     }
 
     try {
@@ -566,6 +646,7 @@ export class SwapService {
           bestAsset,
           userAddress,
           maxSlippage,
+          options,
         );
       }
 
@@ -580,11 +661,18 @@ export class SwapService {
         await this.blockchainService.getTokenDecimals(tokenAddress);
       const balance = await tokenContract.balanceOf(userAddress);
       const requiredAmount = ethers.utils.parseUnits(amount, decimals);
+      options.onProgress?.({
+        step: "balance_check",
+        message: `${asset} balance: ${ethers.utils.formatUnits(balance, decimals)}, need ${amount}`,
+      });
 
       if (balance.gte(requiredAmount)) {
         // Direct stake
         this.logger.log(`Sufficient ${asset} balance, staking directly`);
-        return await this.aaveService.stake({ asset, amount, userAddress });
+        return await this.aaveService.stake(
+          { asset, amount, userAddress },
+          options,
+        );
       }
 
       if (!allowSwap) {
@@ -612,6 +700,7 @@ export class SwapService {
         asset,
         userAddress,
         maxSlippage,
+        options,
       );
     } catch (error) {
       this.logger.error(`Smart stake failed: ${error.message}`);
@@ -625,6 +714,7 @@ export class SwapService {
     toToken: string,
     userAddress: string,
     maxSlippage: number,
+    options: ExecutionOptions,
   ): Promise<any> {
     try {
       // If swapping from native ETH, use WETH for the swap
@@ -632,13 +722,16 @@ export class SwapService {
       const swapFromToken = fromToken === "ETH" ? "WETH" : fromToken;
       
       // First, perform the swap
-      const swapResult = await this.swap({
-        fromToken: swapFromToken,
-        toToken,
-        amount: fromAmount,
-        userAddress,
-        maxSlippage,
-      });
+      const swapResult = await this.swap(
+        {
+          fromToken: swapFromToken,
+          toToken,
+          amount: fromAmount,
+          userAddress,
+          maxSlippage,
+        },
+        options,
+      );
 
       if (swapResult.simulation) {
         return {
@@ -653,11 +746,14 @@ export class SwapService {
       );
 
       // Then stake the received tokens
-      const stakeResult = await this.aaveService.stake({
-        asset: toToken,
-        amount: swapResult.amountOut,
-        userAddress,
-      });
+      const stakeResult = await this.aaveService.stake(
+        {
+          asset: toToken,
+          amount: swapResult.amountOut,
+          userAddress,
+        },
+        options,
+      );
 
       return {
         success: true,
@@ -724,8 +820,9 @@ export class SwapService {
     userAddress: string;
     allowSwap?: boolean;
     maxSlippage?: number;
-  }): Promise<any> {
+  }, options: ExecutionOptions = {}): Promise<any> {
     const { targetAsset, targetAmount, userAddress, allowSwap = true, maxSlippage = 1 } = params;
+    const { onProgress } = options;
 
     try {
       // Get user's current balances
@@ -735,15 +832,22 @@ export class SwapService {
       const targetBalance = userBalances[targetAsset.toUpperCase()] || userBalances[targetAsset] || "0";
       const currentTargetBalance = parseFloat(targetBalance);
       const requiredAmount = parseFloat(targetAmount);
+      onProgress?.({
+        step: "balance_check",
+        message: `${targetAsset} balance: ${targetBalance}, need ${targetAmount}`,
+      });
       
       if (currentTargetBalance >= requiredAmount) {
         // User has enough, stake directly
         this.logger.log(`User has ${targetBalance} ${targetAsset}, staking directly`);
-        return await this.aaveService.stake({
-          asset: targetAsset,
-          amount: targetAmount,
-          userAddress,
-        });
+        return await this.aaveService.stake(
+          {
+            asset: targetAsset,
+            amount: targetAmount,
+            userAddress,
+          },
+          options,
+        );
       }
 
       if (!allowSwap) {
@@ -821,15 +925,22 @@ export class SwapService {
       this.logger.log(
         `Will swap ${bestSourceAmount} ${bestSourceToken} to get ${targetAmount} ${targetAsset} for staking`,
       );
+      onProgress?.({
+        step: "quote",
+        message: `Best route: ${bestSourceAmount} ${bestSourceToken} -> ~${bestQuote.amountOut} ${targetAsset}`,
+      });
 
       // Execute the swap
-      const swapResult = await this.swap({
-        fromToken: bestSourceToken,
-        toToken: targetAsset,
-        amount: bestSourceAmount,
-        userAddress,
-        maxSlippage,
-      });
+      const swapResult = await this.swap(
+        {
+          fromToken: bestSourceToken,
+          toToken: targetAsset,
+          amount: bestSourceAmount,
+          userAddress,
+          maxSlippage,
+        },
+        options,
+      );
 
       if (swapResult.simulation) {
         return {
@@ -856,11 +967,14 @@ export class SwapService {
       }
 
       // Now stake the total amount (existing + swapped)
-      const stakeResult = await this.aaveService.stake({
-        asset: targetAsset,
-        amount: targetAmount,
-        userAddress,
-      });
+      const stakeResult = await this.aaveService.stake(
+        {
+          asset: targetAsset,
+          amount: targetAmount,
+          userAddress,
+        },
+        options,
+      );
 
       return {
         success: true,
@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { TransactionBuilderService } from './transaction-builder.service';
 import { BlockchainModule } from '../blockchain/blockchain.module';
+import { AaveModule } from '../aave/aave.module';
 
 @Module({
-  imports: [BlockchainModule],
+  imports: [BlockchainModule, AaveModule],
   providers: [TransactionBuilderService],
   exports: [TransactionBuilderService],
 })
@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ethers } from 'ethers';
 import { ConfigService } from '@nestjs/config';
 import { BlockchainService } from '../blockchain/blockchain.service';
+import { AaveAddresses } from '../aave/aave-addresses.provider';
+import type { ExecutionOptions } from '../common/interfaces/execution-options.interface';
 
 export interface UnsignedTransaction {
   to: string;
@@ -44,6 +46,7 @@ export class TransactionBuilderService {
   constructor(
     private readonly configService: ConfigService,
     private readonly blockchainService: BlockchainService,
+    private readonly aaveAddresses: AaveAddresses,
   ) {}
 
   /**
@@ -55,7 +58,7 @@ export class TransactionBuilderService {
     userAddress: string;
   }): Promise<PreparedTransaction> {
     const provider = this.blockchainService.getProvider();
-    const poolAddress = this.configService.get('contracts.aavePool');
+    const poolAddress = this.aaveAddresses.pool;
     const tokenAddress = this.blockchainService.getTokenAddress(params.asset);
     
     // Encode function data
@@ -261,7 +264,7 @@ export class TransactionBuilderService {
           name: 'Aave MCP Server',
           version: '1',
           chainId,
-          verifyingContract: this.configService.get('contracts.aavePool') || '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5',
+          verifyingContract: this.aaveAddresses.pool,
         },
         message: {
           asset: params.data.asset,
@@ -354,8 +357,11 @@ export class TransactionBuilderService {
 
   /**
    * Broadcast signed transaction
+   *
+   * Only relayed in execute mode; otherwise the call fails without sending
+   * anything, and dry runs just decode the transaction.
    */
-  async broadcastTransaction(signedTx: string): Promise<{
+  async broadcastTransaction(signedTx: string, options: ExecutionOptions = {}): Promise<{
     success: boolean;
     hash?: string;
     error?: string;
@@ -363,6 +369,41 @@ export class TransactionBuilderService {
     const provider = this.blockchainService.getProvider();
     
     try {
+      if (!this.blockchainService.isAutoExecuteEnabled(options)) {
+        return {
+          success: false,
+          error: `Nothing was relayed: EXECUTION_MODE is ${this.blockchainService.getExecutionMode()}, transactions are only broadcast in execute mode`,
+        };
+      }
+
+      // A dry run only decodes what would be relayed
+      if (options.dryRun) {
+        const tx = ethers.utils.parseTransaction(signedTx);
+        if (!tx.from || !tx.hash) {
+          throw new Error('Transaction is not signed');
+        }
+        options.dryRun.push({
+          from: tx.from,
+          to: tx.to as string,
+          data: tx.data,
+          value: tx.value.toString(),
+          nonce: tx.nonce,
+          gasLimit: tx.gasLimit.toString(),
+          ...(tx.gasPrice && { gasPrice: tx.gasPrice.toString() }),
+          ...(tx.maxFeePerGas && { maxFeePerGas: tx.maxFeePerGas.toString() }),
+          ...(tx.maxPriorityFeePerGas && {
+            maxPriorityFeePerGas: tx.maxPriorityFeePerGas.toString(),
+          }),
+          chainId: tx.chainId,
+          ...(tx.type != null && { type: tx.type }),
+          gasEstimated: true,
+        });
+        return {
+          success: true,
+          hash: tx.hash,
+        };
+      }
+
       const response = await provider.sendTransaction(signedTx);
       return {
         success: true,
@@ -421,7 +462,7 @@ export class TransactionBuilderService {
 
     if (dto.action === 'deposit') {
       // Prepare Aave deposit
-      const aavePoolAddress = this.configService.get<string>('AAVE_POOL') || '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5';
+      const aavePoolAddress = this.aaveAddresses.pool;
       const tokenAddress = this.blockchainService.getTokenAddress(dto.asset);
       const amount = ethers.utils.parseUnits(dto.amount, dto.asset === 'USDC' || dto.asset === 'USDT' ? 6 : 18);
 
@@ -563,7 +604,7 @@ const { write: swap } = useContractWrite(config)
       };
     } else {
       // Withdraw from Aave
-      const aavePoolAddress = this.configService.get<string>('AAVE_POOL') || '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5';
+      const aavePoolAddress = this.aaveAddresses.pool;
       const tokenAddress = this.blockchainService.getTokenAddress(dto.asset);
       const amount = ethers.utils.parseUnits(dto.amount, dto.asset === 'USDC' || dto.asset === 'USDT' ? 6 : 18);
 